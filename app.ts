@@ -0,0 +1,3993 @@
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import express from 'express';
+import cors from 'cors';
+import path from 'path';
+import { ActivityResponse, FeedsClient, FollowResponse } from '@stream-io/feeds-client';
+import WebSocket from 'ws';
+import { StreamTokenProvider, TokenManager, TOKEN_EXPIRY_WARNING_MINUTES } from './tokenProvider';
+import { StreamClient } from '@stream-io/node-sdk';
+import { UserSessionPool } from './userSessionPool';
+import { createAdminMiddleware, createAuthMiddleware, getAuthUser, isAdminUser, requireMatchingUserParam } from './authMiddleware';
+import { RefreshTokenStore } from './refreshTokenStore';
+import { CredentialStore, validatePassword } from './credentialStore';
+import { FeedEvent, FeedEventHub } from './feedEventHub';
+import { FeedWatcher } from './feedWatcher';
+import { BroadcastRunner, BroadcastStore } from './broadcastRunner';
+import { PushExpirySweeper } from './pushExpirySweeper';
+import {
+  applyPreferences,
+  matchesPreferences,
+  mergePreferences,
+  UserPreferences,
+  UserPreferencesStore,
+  validatePreferences
+} from './preferences';
+import { createDefaultRankingRegistry, rankActivities, RankingRegistry, SeenActivityTracker } from './ranking';
+import { findUnknownUsers, normalizeHashtag, parseTextEntities } from './textEntities';
+import { NOTIFICATION_FEED_GROUP, summarizeNotificationGroup } from './notifications';
+import { DEFAULT_REACTION_TYPES, parseReactionTypes, ReactionSummary, ReactionTypeRegistry, summarizeReactions } from './reactions';
+import { buildViewerState, MAX_VIEWER_STATE_IDS, ViewerState } from './viewerState';
+import { followUser, unfollowUser } from './followRelationships';
+import { PushAudience, PushScheduler, ScheduledPush, ScheduledPushStatus, ScheduledPushStore, validateSchedule } from './pushScheduler';
+import {
+  applyPushFilter,
+  buildPushActivity,
+  DEFAULT_PUSH_CATEGORIES,
+  matchesPushFilter,
+  parsePushCategories,
+  PUSH_PRIORITIES,
+  PushCategoryRegistry,
+  PushContent,
+  PushFilter,
+  validatePushMetadata
+} from './globalPush';
+
+// WebSocket polyfill for Node.js
+if (!(global as any).WebSocket) {
+  (global as any).WebSocket = WebSocket;
+}
+
+export interface AppConfig {
+  /** 访问令牌有效期（秒） */
+  tokenValiditySeconds: number;
+  /** 刷新令牌有效期（秒） */
+  refreshTokenValiditySeconds: number;
+  /** 用户密码文件，为 null 时只保存在内存中 */
+  credentialsDataFile: string | null;
+  /** 刷新令牌文件，为 null 时只保存在内存中（重启后需要重新登录） */
+  refreshTokenDataFile: string | null;
+  /** 同时保持连接的最大用户会话数 */
+  maxUserSessions: number;
+  /** 用户会话空闲超时（秒） */
+  sessionIdleTimeoutSeconds: number;
+  /** Web 界面静态文件目录，为 null 时不提供 Web 界面 */
+  publicDir: string | null;
+  /** 实时订阅（SSE）心跳间隔（秒） */
+  sseHeartbeatSeconds: number;
+  /** 每个 feed 保留用于断线续传的最近事件数量 */
+  sseBufferSize: number;
+  /** 允许的推送分类 */
+  pushCategories: string[];
+  /** 活动和评论可用的互动类型（like 始终可用） */
+  reactionTypes: string[];
+  /** 广播任务进度文件，为 null 时只保存在内存中（重启后无法继续） */
+  broadcastDataFile: string | null;
+  /** 广播时每个推送活动同时发布到多少个 foryou feed */
+  broadcastBatchSize: number;
+  /** 定时推送文件，为 null 时只保存在内存中（重启后丢失） */
+  scheduledPushDataFile: string | null;
+  /** 过期推送清理间隔（秒），为 0 时不在后台清理 */
+  pushSweepIntervalSeconds: number;
+  /** 后台清理只报告不删除 */
+  pushSweepDryRun: boolean;
+}
+
+export interface AppDependencies {
+  /**
+   * 用户端客户端：传入工厂时每个用户会话创建一个新客户端；
+   * 传入单个实例时所有用户共享该实例（仅适用于测试用的桩客户端）
+   */
+  feedsClient: FeedsClient | (() => FeedsClient);
+  /** 服务端客户端 */
+  streamClient: StreamClient;
+  /** 令牌提供者，用于签发和验证访问令牌 */
+  tokenProvider: StreamTokenProvider;
+  /** 应用配置，未提供的字段使用默认值 */
+  config?: Partial<AppConfig>;
+  /** foryou 排序策略，不传时使用内置策略（balanced、popular、fresh） */
+  rankingRegistry?: RankingRegistry;
+  /** 用户密码存储，不传时使用 config.credentialsDataFile */
+  credentialStore?: CredentialStore;
+}
+
+/**
+ * createApp 返回的 Express 应用
+ *
+ * 创建时不启动后台任务，独立运行时调用 start 启动（继续未完成的广播、定时推送和过期清理），
+ * stop 停止后台任务，shutdown 停止后台任务并释放用户会话
+ */
+export type StreamFeedsApp = express.Express & {
+  start: () => void;
+  stop: () => void;
+  shutdown: () => Promise<void>;
+};
+
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  tokenValiditySeconds: 3600,
+  refreshTokenValiditySeconds: 7200,
+  credentialsDataFile: null,
+  refreshTokenDataFile: null,
+  maxUserSessions: 50,
+  sessionIdleTimeoutSeconds: 600,
+  publicDir: path.join(__dirname, 'public'),
+  sseHeartbeatSeconds: 25,
+  sseBufferSize: 200,
+  pushCategories: DEFAULT_PUSH_CATEGORIES,
+  reactionTypes: DEFAULT_REACTION_TYPES,
+  broadcastDataFile: null,
+  broadcastBatchSize: 25,
+  scheduledPushDataFile: null,
+  pushSweepIntervalSeconds: 300,
+  pushSweepDryRun: false
+};
+
+// 支持实时订阅的 feed 组
+const STREAMABLE_FEED_GROUPS = ['user', 'foryou'];
+
+// 筛选 feed 时每页最多读取的次数，筛选条件很少匹配时避免读取整个 feed
+const MAX_FILTERED_PAGE_FETCHES = 10;
+
+type PageCursor = { next?: string; prev?: string };
+
+/**
+ * 按游标分页读取，只保留 accept 接受的数据
+ *
+ * 筛选只能在取回后进行。为了每页都是满的且游标不会跳过数据，每次只请求还缺少的数量并完整使用取回的结果，
+ * 直到凑满一页、没有更多数据或读取了 maxFetches 次（此时返回不满一页的结果，游标仍然正确）
+ * @param fetchPage 读取一页，cursor 为空时读取第一页
+ */
+async function queryFilteredPage<T>(
+  limit: number,
+  cursor: PageCursor,
+  fetchPage: (limit: number, cursor: PageCursor) => Promise<{ items: T[]; next?: string; prev?: string }>,
+  accept: (item: T) => boolean,
+  maxFetches: number = Infinity
+): Promise<{ items: T[]; next?: string; prev?: string }> {
+  const backward = !cursor.next && !!cursor.prev;
+  let position = cursor.next || cursor.prev;
+
+  const pages: Array<{ items: T[]; next?: string; prev?: string }> = [];
+  let collected = 0;
+  do {
+    const page = await fetchPage(limit - collected, position ? backward ? { prev: position } : { next: position } : {});
+    const items = page.items.filter(accept);
+    pages.push({ items, next: page.next, prev: page.prev });
+    collected += items.length;
+    position = backward ? page.prev : page.next;
+  } while (position && collected < limit && pages.length < maxFetches);
+
+  // 向前翻页时后取回的结果排在前面
+  const ordered = backward ? pages.reverse() : pages;
+  return {
+    items: ordered.flatMap(page => page.items),
+    next: ordered[ordered.length - 1].next,
+    prev: ordered[0].prev
+  };
+}
+
+/**
+ * 从环境变量读取应用配置
+ * @param env 环境变量，默认为 process.env
+ */
+export function loadAppConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  return {
+    ...DEFAULT_APP_CONFIG,
+    tokenValiditySeconds: parseInt(env.TOKEN_VALIDITY_SECONDS || '3600', 10),
+    refreshTokenValiditySeconds: parseInt(env.REFRESH_TOKEN_VALIDITY_SECONDS || '7200', 10),
+    credentialsDataFile: env.CREDENTIALS_DATA_FILE || './data/credentials.json',
+    refreshTokenDataFile: env.REFRESH_TOKEN_DATA_FILE || './data/refresh-tokens.json',
+    maxUserSessions: parseInt(env.MAX_USER_SESSIONS || '50', 10),
+    sessionIdleTimeoutSeconds: parseInt(env.SESSION_IDLE_TIMEOUT_SECONDS || '600', 10),
+    sseHeartbeatSeconds: parseInt(env.SSE_HEARTBEAT_SECONDS || '25', 10),
+    sseBufferSize: parseInt(env.SSE_BUFFER_SIZE || '200', 10),
+    pushCategories: parsePushCategories(env.PUSH_CATEGORIES),
+    reactionTypes: parseReactionTypes(env.REACTION_TYPES),
+    broadcastDataFile: env.BROADCAST_DATA_FILE || './data/broadcasts.json',
+    broadcastBatchSize: parseInt(env.BROADCAST_BATCH_SIZE || '25', 10),
+    scheduledPushDataFile: env.SCHEDULED_PUSH_DATA_FILE || './data/scheduled-pushes.json',
+    pushSweepIntervalSeconds: parseInt(env.PUSH_SWEEP_INTERVAL_SECONDS || '300', 10),
+    pushSweepDryRun: env.PUSH_SWEEP_DRY_RUN === 'true'
+  };
+}
+
+/**
+ * 创建 Stream Feeds API 应用（不监听端口）
+ *
+ * 所有外部依赖都通过参数传入，可以挂载到其他 Express 服务中，
+ * 也可以在测试中传入桩客户端直接在进程内运行。
+ * @param deps 依赖和配置
+ */
+export function createApp(deps: AppDependencies): StreamFeedsApp {
+  const { feedsClient, streamClient, tokenProvider } = deps;
+  if (!feedsClient) {
+    throw new Error('createApp 需要提供 feedsClient');
+  }
+  if (!streamClient) {
+    throw new Error('createApp 需要提供 streamClient');
+  }
+  if (!tokenProvider) {
+    throw new Error('createApp 需要提供 tokenProvider');
+  }
+
+  const config: AppConfig = { ...DEFAULT_APP_CONFIG, ...deps.config };
+  const createFeedsClient = typeof feedsClient === 'function' ? feedsClient : () => feedsClient;
+
+  const app = express();
+
+  // 中间件
+  app.use(cors());
+  app.use(express.json());
+  if (config.publicDir) {
+    app.use(express.static(config.publicDir));
+  }
+
+  const tokenManager = new TokenManager(tokenProvider, {
+    validityInSeconds: config.tokenValiditySeconds
+  });
+  const refreshTokenStore = new RefreshTokenStore(config.refreshTokenValiditySeconds, config.refreshTokenDataFile || undefined);
+  const credentialStore = deps.credentialStore || new CredentialStore(config.credentialsDataFile || undefined);
+
+  /**
+   * 获取用户令牌（过期前会由 TokenManager 主动刷新）
+   */
+  async function getUserToken(userId: string): Promise<string> {
+    return tokenManager.getValidToken(userId, config.tokenValiditySeconds);
+  }
+
+  // 每个用户独立的 FeedsClient 会话池
+  const sessionPool = new UserSessionPool(createFeedsClient, getUserToken, {
+    maxSessions: config.maxUserSessions,
+    idleTimeoutMs: config.sessionIdleTimeoutSeconds * 1000
+  });
+
+  // 还有会话的用户仍在使用令牌（会话空闲超时后才会断开），到期前继续续期
+  tokenManager.setActivityCheck(userId => sessionPool.has(userId));
+
+  // 令牌刷新后，用新令牌重新连接该用户的会话
+  tokenManager.setRefreshCallback(async (userId: string, newToken: string) => {
+    await sessionPool.reconnect(userId, newToken);
+  });
+
+  // 当前请求借用的用户会话，响应结束（或连接断开）时归还，借用中的会话不会被淘汰
+  type RequestLeases = { closed: boolean; releases: Array<() => void> };
+  const requestLeases = new AsyncLocalStorage<RequestLeases>();
+
+  app.use((req, res, next) => {
+    const leases: RequestLeases = { closed: false, releases: [] };
+    res.on('close', () => {
+      leases.closed = true;
+      leases.releases.splice(0).forEach(release => release());
+    });
+    requestLeases.run(leases, next);
+  });
+
+  /**
+   * 获取已连接指定用户的 Stream 客户端（在请求中调用时借用到响应结束）
+   */
+  async function connectUser(userId: string): Promise<FeedsClient> {
+    const leases = requestLeases.getStore();
+    if (!leases) {
+      return sessionPool.acquire(userId);
+    }
+
+    const lease = await sessionPool.lease(userId);
+    if (leases.closed) {
+      lease.release();
+    } else {
+      leases.releases.push(lease.release);
+    }
+    return lease.client;
+  }
+
+  // 实时事件：监听用户会话中的 feed，并通过 SSE 转发给浏览器
+  const feedEventHub = new FeedEventHub(config.sseBufferSize);
+  const feedWatcher = new FeedWatcher(feedEventHub, connectUser);
+  // 当前打开的 SSE 连接的关闭函数
+  const sseConnections = new Set<() => void>();
+
+  // 推送分类注册表
+  const pushCategories = new PushCategoryRegistry(config.pushCategories);
+
+  // 互动类型注册表
+  const reactionTypes = new ReactionTypeRegistry(config.reactionTypes);
+
+  // 全局广播：start 时继续上次未完成的任务
+  const broadcastRunner = new BroadcastRunner(
+    streamClient,
+    new BroadcastStore(config.broadcastDataFile || undefined),
+    pushCategories,
+    { batchSize: config.broadcastBatchSize }
+  );
+
+  /**
+   * 发布推送到指定用户的 foryou feed
+   * @param entities 帖子中的话题和提及
+   */
+  async function publishToForYou(userId: string, content: PushContent, entities: ActivityEntities = {}) {
+    const client = await connectUser(userId);
+    return client.feed('foryou', userId).addActivity({
+      ...buildPushActivity(content, pushCategories),
+      ...entities,
+      // 通知帖子中提及的用户
+      create_notification_activity: !!entities.mentioned_user_ids?.length
+    });
+  }
+
+  type ActivityEntities = { interest_tags?: string[]; mentioned_user_ids?: string[] };
+
+  /**
+   * 解析帖子中的话题和提及
+   * 提及了不存在的用户（如 @everyone 或邮箱地址的一部分）时忽略该提及：不保存也不通知，帖子照常发布
+   * @returns 活动的 interest_tags 和 mentioned_user_ids 字段
+   */
+  async function resolveTextEntities(text: string): Promise<ActivityEntities> {
+    const { hashtags, mentions } = parseTextEntities(text);
+
+    const unknownUsers = new Set(await findUnknownUsers(streamClient, mentions));
+    return {
+      interest_tags: hashtags,
+      mentioned_user_ids: mentions.filter(userId => !unknownUsers.has(userId))
+    };
+  }
+
+  // 定时推送：到期后发布到创建者的 foryou feed，或者广播给所有用户
+  const pushScheduler = new PushScheduler(
+    new ScheduledPushStore(config.scheduledPushDataFile || undefined),
+    async (push: ScheduledPush) => {
+      if (push.audience === 'all') {
+        const job = await broadcastRunner.run(broadcastRunner.create(push.content, push.createdBy).id);
+        // 暂停（服务停止）或有用户投递失败时视为失败，由调度器记录并重试
+        if (job.status !== 'completed') {
+          throw new Error(`广播任务 ${job.id} 未完成（状态: ${job.status}），服务再次启动后继续投递`);
+        }
+        if (job.failed > 0) {
+          throw new Error(`广播任务 ${job.id} 有 ${job.failed} 个用户投递失败: ${job.lastError}`);
+        }
+      } else {
+        await publishToForYou(push.createdBy, push.content);
+      }
+    }
+  );
+
+  // 过期推送：读取时已过滤，后台定期从 Stream 中删除
+  const pushExpirySweeper = new PushExpirySweeper(streamClient, {
+    intervalMs: config.pushSweepIntervalSeconds * 1000,
+    dryRun: config.pushSweepDryRun
+  });
+
+  // foryou 排序策略和已看过的活动
+  const rankingRegistry = deps.rankingRegistry || createDefaultRankingRegistry();
+  const seenActivities = new SeenActivityTracker();
+
+  // 用户兴趣偏好（保存在 Stream 用户的 custom 中）
+  const userPreferences = new UserPreferencesStore(streamClient);
+
+  /**
+   * 分页查询所有符合条件的关注关系
+   */
+  async function queryAllFollows(client: FeedsClient, filter: Record<string, unknown>) {
+    const follows: FollowResponse[] = [];
+    let next: string | undefined;
+    do {
+      const result = await client.queryFollows({ filter, limit: 100, ...(next ? { next } : {}) });
+      follows.push(...result.follows);
+      next = result.next;
+    } while (next);
+    return follows;
+  }
+
+  /**
+   * 获取用户关注的用户ID
+   */
+  async function getFollowedUserIds(client: FeedsClient, userId: string): Promise<Set<string>> {
+    const follows = await queryAllFollows(client, { source_feed: `user:${userId}` });
+    return new Set(follows.map(follow => follow.target_feed.id.replace('user:', '')));
+  }
+
+  // ==================== 认证相关 API（无需令牌） ====================
+
+  /**
+   * 签发访问令牌和刷新令牌
+   */
+  function issueTokens(userId: string) {
+    const tokenInfo = tokenProvider.generateUserToken({
+      userId,
+      validityInSeconds: config.tokenValiditySeconds
+    });
+    const refresh = refreshTokenStore.issue(userId);
+
+    return {
+      ...tokenInfo,
+      refreshToken: refresh.token,
+      refreshExpiresAt: refresh.expiresAt,
+      // 客户端应在过期前这么多秒内刷新，与 isTokenExpiringSoon 的窗口一致
+      refreshBeforeSeconds: TOKEN_EXPIRY_WARNING_MINUTES * 60
+    };
+  }
+
+  /**
+   * 获取访问令牌（登录），需要用户ID和密码
+   */
+  app.post('/api/auth/token', async (req, res) => {
+    try {
+      const { userId, password } = req.body || {};
+
+      if (!userId || !password) {
+        return res.status(400).json({
+          success: false,
+          error: '缺少必要参数',
+          message: '需要提供 userId 和 password'
+        });
+      }
+
+      // 用户不存在和密码错误返回相同的错误，避免探测用户是否存在
+      if (!credentialStore.verify(userId, password)) {
+        return res.status(401).json({
+          success: false,
+          error: '用户ID或密码错误',
+          message: '用户ID或密码不正确，没有设置密码的用户需要先通过 npm run set-password 设置'
+        });
+      }
+
+      const userResponse = await streamClient.queryUsers({
+        payload: {
+          filter_conditions: { id: { $eq: userId } },
+          limit: 1
+        }
+      });
+      if (!userResponse.users || userResponse.users.length === 0) {
+        return res.status(404).json({
+          success: false,
+          error: '用户不存在',
+          message: `用户 ${userId} 不存在于系统中`
+        });
+      }
+
+      res.json({
+        success: true,
+        data: issueTokens(userId)
+      });
+    } catch (error) {
+      console.error('签发令牌失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '签发令牌失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 使用刷新令牌换取新的访问令牌
+   */
+  app.post('/api/auth/refresh', async (req, res) => {
+    try {
+      const { refreshToken } = req.body || {};
+
+      if (!refreshToken) {
+        return res.status(400).json({
+          success: false,
+          error: '缺少必要参数',
+          message: '需要提供 refreshToken'
+        });
+      }
+
+      const record = refreshTokenStore.consume(refreshToken);
+      if (!record) {
+        return res.status(401).json({
+          success: false,
+          error: '刷新令牌无效',
+          message: '刷新令牌无效、已过期或已被吊销，请重新登录'
+        });
+      }
+
+      console.log(`🔄 用户 ${record.userId} 使用刷新令牌换取新令牌`);
+
+      res.json({
+        success: true,
+        data: issueTokens(record.userId)
+      });
+    } catch (error) {
+      console.error('刷新令牌失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '刷新令牌失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 吊销刷新令牌（登出）
+   */
+  app.post('/api/auth/revoke', async (req, res) => {
+    const { refreshToken } = req.body || {};
+
+    if (!refreshToken) {
+      return res.status(400).json({
+        success: false,
+        error: '缺少必要参数',
+        message: '需要提供 refreshToken'
+      });
+    }
+
+    const revoked = refreshTokenStore.revoke(refreshToken);
+
+    res.json({
+      success: true,
+      data: {
+        revoked,
+        timestamp: new Date().toISOString()
+      }
+    });
+  });
+
+  // 其余 /api 路由都需要 Bearer 令牌，且路径中的 :userId 必须是令牌用户本人
+  // 修改密码或删除用户后，之前签发的访问令牌立即失效
+  app.use('/api', createAuthMiddleware(tokenProvider, {
+    isTokenRevoked: user => !credentialStore.acceptsToken(user.userId, user.iat)
+  }));
+  app.param('userId', requireMatchingUserParam);
+
+  const requireAdmin = createAdminMiddleware(streamClient);
+
+  // API 路由
+
+  /**
+   * 获取用户 feed 内容
+   */
+  app.get('/api/feeds/user/:userId', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const next = req.query.next as string;
+      const prev = req.query.prev as string;
+
+      const client = await connectUser(userId);
+
+      const userFeed = client.feed('user', userId);
+
+      // 构建查询参数
+      const queryParams: any = { limit };
+      if (next) {
+        queryParams.next = next;
+      } else if (prev) {
+        queryParams.prev = prev;
+      }
+
+      const content = await userFeed.getOrCreate(queryParams);
+      const activities = content.activities || [];
+
+      res.json({
+        success: true,
+        data: {
+          feedType: 'user',
+          userId,
+          activities,
+          total: activities.length,
+          pagination: {
+            next: content.next || null,
+            prev: content.prev || null,
+            hasNext: !!content.next,
+            hasPrev: !!content.prev
+          },
+          ...await includeViewerState(req, userId, activities)
+        }
+      });
+    } catch (error) {
+      console.error('获取用户 feed 失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取用户 feed 失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取可用的推送优先级和分类
+   */
+  app.get('/api/push-categories', (req, res) => {
+    res.json({
+      success: true,
+      data: {
+        priorities: PUSH_PRIORITIES,
+        categories: pushCategories.list(),
+        timestamp: new Date().toISOString()
+      }
+    });
+  });
+
+  /**
+   * 获取可用的 foryou 排序策略
+   */
+  app.get('/api/ranking-strategies', (req, res) => {
+    res.json({
+      success: true,
+      data: {
+        strategies: rankingRegistry.list(),
+        timestamp: new Date().toISOString()
+      }
+    });
+  });
+
+  /**
+   * 获取 foryou feed 内容
+   * ?priority= / ?category= 筛选、过期和被偏好屏蔽的推送不占用名额，继续读取直到凑满一页；高优先级推送只在当前页内置顶
+   * 自动应用用户偏好（屏蔽的分类、类型和语言，关注的分类靠前），?ignorePreferences=true 时不应用；
+   * ?rank=<策略> 时从最近的候选活动（?window=，默认 50，最多 100）中按得分重新排序，
+   * 每条活动带有 ranking 得分明细
+   */
+  app.get('/api/feeds/foryou/:userId', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const next = req.query.next as string;
+      const prev = req.query.prev as string;
+      const filter: PushFilter = {
+        priority: (req.query.priority as PushFilter['priority']) || undefined,
+        category: (req.query.category as string) || undefined
+      };
+
+      const filterError = validatePushMetadata(filter, pushCategories);
+      if (filterError) {
+        return res.status(400).json({
+          success: false,
+          error: '筛选条件无效',
+          message: filterError
+        });
+      }
+
+      const rank = req.query.rank as string | undefined;
+      const strategy = rank ? rankingRegistry.get(rank) : null;
+      if (rank && !strategy) {
+        return res.status(400).json({
+          success: false,
+          error: '排序策略无效',
+          message: `rank 必须是以下策略之一: ${rankingRegistry.list().map(item => item.name).join(', ')}`
+        });
+      }
+
+      const preferences = req.query.ignorePreferences === 'true' ? null : await userPreferences.get(userId);
+      const filterActivities = <T extends ActivityResponse>(activities: T[]) =>
+        applyPushFilter(preferences ? applyPreferences(activities, preferences) : activities, filter);
+
+      const client = await connectUser(userId);
+
+      const foryouFeed = client.feed('foryou', userId);
+
+      if (strategy) {
+        // 从最近的候选活动中重新排序，排序结果不支持翻页
+        const windowSize = Math.min(parseInt(req.query.window as string) || Math.max(limit, 50), 100);
+        const [content, followedUserIds] = await Promise.all([
+          foryouFeed.getOrCreate({ limit: windowSize }),
+          getFollowedUserIds(client, userId)
+        ]);
+
+        const candidates = filterActivities(content.activities || []);
+        const activities = rankActivities(candidates, strategy, {
+          viewerId: userId,
+          now: new Date(),
+          followedUserIds,
+          seenActivityIds: seenActivities.getSeen(userId)
+        }).slice(0, limit);
+
+        return res.json({
+          success: true,
+          data: {
+            feedType: 'foryou',
+            userId,
+            activities,
+            total: activities.length,
+            filters: filter,
+            preferences,
+            ranking: {
+              strategy: strategy.name,
+              candidates: candidates.length
+            },
+            pagination: {
+              next: null,
+              prev: null,
+              hasNext: false,
+              hasPrev: false
+            },
+            ...await includeViewerState(req, userId, activities)
+          }
+        });
+      }
+
+      // 过期、优先级和分类筛选以及屏蔽的推送不占用名额，继续读取直到凑满一页
+      const now = new Date();
+      const content = await queryFilteredPage(
+        limit,
+        { next, prev },
+        async (pageLimit, cursor) => {
+          const result = await foryouFeed.getOrCreate({ limit: pageLimit, ...cursor });
+          return { items: result.activities || [], next: result.next, prev: result.prev };
+        },
+        activity => matchesPushFilter(activity, filter, now) && (!preferences || matchesPreferences(activity, preferences)),
+        MAX_FILTERED_PAGE_FETCHES
+      );
+
+      // 关注的分类靠前和高优先级推送置顶只在当前页内排序
+      const activities = filterActivities(content.items);
+
+      res.json({
+        success: true,
+        data: {
+          feedType: 'foryou',
+          userId,
+          activities,
+          total: activities.length,
+          filters: filter,
+          preferences,
+          pagination: {
+            next: content.next || null,
+            prev: content.prev || null,
+            hasNext: !!content.next,
+            hasPrev: !!content.prev
+          },
+          ...await includeViewerState(req, userId, activities)
+        }
+      });
+    } catch (error) {
+      console.error('获取 foryou feed 失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取 foryou feed 失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 实时订阅 feed（Server-Sent Events）
+   * 推送新活动、reaction 和评论，定期发送心跳；
+   * 重连时通过 Last-Event-ID 头（或 lastEventId 查询参数）从上次收到的事件之后继续
+   */
+  app.get('/api/feeds/:group/:userId/stream', async (req, res) => {
+    const { group, userId } = req.params;
+    if (!STREAMABLE_FEED_GROUPS.includes(group)) {
+      return res.status(400).json({
+        success: false,
+        error: '不支持的 feed 类型',
+        message: `只能订阅以下 feed: ${STREAMABLE_FEED_GROUPS.join(', ')}`
+      });
+    }
+
+    const fid = `${group}:${userId}`;
+
+    // 先注册关闭处理：开始监听期间客户端就断开时，监听建立后立即释放
+    let closed = false;
+    let close: (() => void) | undefined;
+    res.on('close', () => {
+      closed = true;
+      close?.();
+    });
+
+    let stopWatching: () => void;
+    try {
+      stopWatching = await feedWatcher.watch(group, userId);
+    } catch (error) {
+      console.error('订阅 feed 失败:', error);
+      if (closed) {
+        return;
+      }
+      return res.status(500).json({
+        success: false,
+        error: '订阅 feed 失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+
+    if (closed) {
+      stopWatching();
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    const send = (event: FeedEvent) => {
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    };
+
+    // 补发断线期间的事件；缓冲区不足或服务已重启时通知客户端重新加载
+    const lastEventId = req.header('Last-Event-ID') || (req.query.lastEventId as string);
+    if (lastEventId) {
+      const { events, resyncRequired } = feedEventHub.replay(fid, lastEventId);
+      if (resyncRequired) {
+        res.write(`id: ${feedEventHub.lastEventId}\nevent: resync\ndata: ${JSON.stringify({ fid })}\n\n`);
+      } else {
+        events.forEach(send);
+      }
+    }
+
+    const unsubscribe = feedEventHub.subscribe(fid, send);
+    res.write(`event: ready\ndata: ${JSON.stringify({ fid, timestamp: new Date().toISOString() })}\n\n`);
+
+    // 心跳：保持连接不被代理断开，并确认用户会话中的监听仍然有效
+    // 定时器运行在请求的上下文中，刷新时离开该上下文，避免每次心跳都再借用一次会话（连接本身已经借用到断开为止）
+    const heartbeat = setInterval(() => {
+      res.write(`: heartbeat ${new Date().toISOString()}\n\n`);
+      requestLeases.exit(() => feedWatcher.refresh(fid));
+    }, config.sseHeartbeatSeconds * 1000);
+
+    const closeStream = () => {
+      if (!sseConnections.delete(closeStream)) {
+        return;
+      }
+      clearInterval(heartbeat);
+      unsubscribe();
+      stopWatching();
+      res.end();
+    };
+    close = closeStream;
+    sseConnections.add(closeStream);
+  });
+
+  /**
+   * 发布内容到用户 feed
+   */
+  app.post('/api/feeds/user/:userId/post', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { text, type = 'post' } = req.body;
+
+      if (!text) {
+        return res.status(400).json({
+          success: false,
+          error: '内容不能为空'
+        });
+      }
+
+      const entities = await resolveTextEntities(text);
+
+      const client = await connectUser(userId);
+
+      const activity = await client.addActivity({
+        feeds: [`user:${userId}`, `foryou:${userId}`],
+        text,
+        type,
+        ...entities,
+        create_notification_activity: entities.mentioned_user_ids!.length > 0
+      });
+
+      res.json({
+        success: true,
+        data: {
+          message: '发布到用户 feed 成功',
+          activity,
+          feedType: 'user',
+          userId
+        }
+      });
+    } catch (error) {
+      console.error('发布到用户 feed 失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '发布到用户 feed 失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 发布内容到 foryou feed
+   */
+  app.post('/api/feeds/foryou/:userId/post', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { text, type = 'recommendation', priority, category, expiresAt } = req.body;
+
+      if (!text) {
+        return res.status(400).json({
+          success: false,
+          error: '内容不能为空'
+        });
+      }
+
+      const metadataError = validatePushMetadata({ priority, category, expiresAt }, pushCategories);
+      if (metadataError) {
+        return res.status(400).json({
+          success: false,
+          error: '推送参数无效',
+          message: metadataError
+        });
+      }
+
+      const entities = await resolveTextEntities(text);
+
+      const activity = await publishToForYou(userId, { text, type, priority, category, expiresAt }, entities);
+
+      res.json({
+        success: true,
+        data: {
+          message: '发布到 foryou feed 成功',
+          activity,
+          feedType: 'foryou',
+          userId
+        }
+      });
+    } catch (error) {
+      console.error('发布到 foryou feed 失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '发布到 foryou feed 失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 同时发布到用户 feed 和 foryou feed
+   */
+  app.post('/api/feeds/both/:userId/post', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { text, userType = 'post', foryouType = 'recommendation', priority, category, expiresAt } = req.body;
+
+      if (!text) {
+        return res.status(400).json({
+          success: false,
+          error: '内容不能为空'
+        });
+      }
+
+      const metadataError = validatePushMetadata({ priority, category, expiresAt }, pushCategories);
+      if (metadataError) {
+        return res.status(400).json({
+          success: false,
+          error: '推送参数无效',
+          message: metadataError
+        });
+      }
+
+      const entities = await resolveTextEntities(text);
+
+      const client = await connectUser(userId);
+
+      const userFeed = client.feed('user', userId);
+      const foryouFeed = client.feed('foryou', userId);
+
+      // 两个 feed 中是两条独立的活动，通过 custom.sibling_ids 互相关联，编辑和删除时一起处理
+      const userActivityId = crypto.randomUUID();
+      const foryouActivityId = crypto.randomUUID();
+      const postGroupId = crypto.randomUUID();
+      const pushActivity = buildPushActivity({ text, type: foryouType, priority, category, expiresAt }, pushCategories);
+
+      // 同时发布到两个 feed
+      const [userActivity, foryouActivity] = await Promise.all([
+        userFeed.addActivity({
+          id: userActivityId,
+          text,
+          type: userType,
+          ...entities,
+          // 两个副本中只由用户 feed 的副本通知提及的用户
+          create_notification_activity: entities.mentioned_user_ids!.length > 0,
+          custom: { post_group_id: postGroupId, sibling_ids: [foryouActivityId] }
+        }),
+        foryouFeed.addActivity({
+          ...pushActivity,
+          ...entities,
+          id: foryouActivityId,
+          custom: { ...pushActivity.custom, post_group_id: postGroupId, sibling_ids: [userActivityId] }
+        })
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          message: '同时发布到用户 feed 和 foryou feed 成功',
+          userActivity,
+          foryouActivity,
+          userId
+        }
+      });
+    } catch (error) {
+      console.error('同时发布失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '同时发布失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 标记活动为已看过（用于 foryou 排序降低已看过内容的排名）
+   */
+  app.post('/api/user/:userId/seen', (req, res) => {
+    const { userId } = req.params;
+    const { activityIds } = req.body || {};
+
+    if (!Array.isArray(activityIds) || activityIds.some(id => typeof id !== 'string')) {
+      return res.status(400).json({
+        success: false,
+        error: '缺少必要参数',
+        message: 'activityIds 必须是活动ID数组'
+      });
+    }
+
+    seenActivities.markSeen(userId, activityIds);
+
+    res.json({
+      success: true,
+      data: {
+        userId,
+        marked: activityIds.length,
+        timestamp: new Date().toISOString()
+      }
+    });
+  });
+
+  /**
+   * 获取全局活动
+   */
+  app.get('/api/activities/:userId', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const next = req.query.next as string;
+      const prev = req.query.prev as string;
+
+      const client = await connectUser(userId);
+
+      // 构建查询参数
+      const queryParams: any = {
+        filter: {
+          activity_type: "post",
+        },
+        sort: [{ field: "created_at", direction: -1 }],
+        limit: limit,
+      };
+
+      // 添加分页参数
+      if (next) {
+        queryParams.next = next;
+      } else if (prev) {
+        queryParams.prev = prev;
+      }
+
+      // 查询全局活动
+      const activities = await client.queryActivities(queryParams);
+
+
+      // const forYouFeed = streamClient.feeds.feed('foryou', userId);
+      // const activities = await forYouFeed.getOrCreate({user_id: userId, limit, next, prev});
+
+
+      res.json({
+        success: true,
+        data: {
+          feedType: 'activities',
+          userId,
+          activities: activities.activities || [],
+          total: activities.activities?.length || 0,
+          pagination: {
+            next: activities.next || null,
+            prev: activities.prev || null,
+            hasNext: !!activities.next,
+            hasPrev: !!activities.prev
+          },
+          ...await includeViewerState(req, userId, activities.activities || [])
+        }
+      });
+    } catch (error) {
+      console.error('获取全局活动失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取全局活动失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 查询活动（按发布时间倒序，支持 next/prev 分页和 ?include=viewerState）
+   */
+  async function queryActivityPage(req: express.Request, userId: string, filter: Record<string, unknown>) {
+    const limit = parseInt(req.query.limit as string) || 10;
+    const next = req.query.next as string;
+    const prev = req.query.prev as string;
+
+    const client = await connectUser(userId);
+    const result = await client.queryActivities({
+      filter,
+      sort: [{ field: 'created_at', direction: -1 }],
+      limit,
+      ...(next ? { next } : prev ? { prev } : {})
+    });
+
+    return {
+      activities: result.activities || [],
+      total: result.activities?.length || 0,
+      pagination: {
+        next: result.next || null,
+        prev: result.prev || null,
+        hasNext: !!result.next,
+        hasPrev: !!result.prev
+      },
+      ...await includeViewerState(req, userId, result.activities || [])
+    };
+  }
+
+  /**
+   * 获取带有指定话题的活动
+   */
+  app.get('/api/hashtags/:tag', async (req, res) => {
+    try {
+      const tag = normalizeHashtag(req.params.tag);
+      if (!tag) {
+        return res.status(400).json({
+          success: false,
+          error: '话题无效',
+          message: '话题只能包含字母、数字和下划线，最长 64 个字符'
+        });
+      }
+
+      const { userId } = getAuthUser(res);
+      const page = await queryActivityPage(req, userId, { interest_tags: { $in: [tag] } });
+
+      res.json({
+        success: true,
+        data: {
+          feedType: 'hashtag',
+          tag,
+          ...page
+        }
+      });
+    } catch (error) {
+      console.error('获取话题活动失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取话题活动失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取提及了用户的活动
+   */
+  app.get('/api/user/:userId/mentions', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const page = await queryActivityPage(req, userId, { mentioned_user_ids: { $in: [userId] } });
+
+      res.json({
+        success: true,
+        data: {
+          feedType: 'mentions',
+          userId,
+          ...page
+        }
+      });
+    } catch (error) {
+      console.error('获取提及失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取提及失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取用户的通知（按分组聚合，如“alice 和其他 3 人回应了你的帖子”）
+   * ?markSeen=true 时读取后把所有通知标记为已看
+   */
+  app.get('/api/user/:userId/notifications', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const next = req.query.next as string;
+      const markSeen = req.query.markSeen === 'true';
+
+      const client = await connectUser(userId);
+      const result = await client.feed(NOTIFICATION_FEED_GROUP, userId).getOrCreate({
+        limit,
+        ...(next ? { next } : {})
+      });
+      const status = result.notification_status;
+
+      if (markSeen) {
+        await client.markActivity({
+          feed_group_id: NOTIFICATION_FEED_GROUP,
+          feed_id: userId,
+          mark_all_seen: true
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          userId,
+          notifications: (result.aggregated_activities || []).map(group => summarizeNotificationGroup(group, status)),
+          unread: status?.unread || 0,
+          unseen: markSeen ? 0 : status?.unseen || 0,
+          pagination: {
+            next: result.next || null,
+            hasNext: !!result.next
+          },
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('获取通知失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取通知失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 标记通知为已读（请求体 groups 为要标记的分组，不传时全部标记为已读）
+   */
+  app.post('/api/user/:userId/notifications/read', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { groups } = req.body || {};
+
+      if (groups !== undefined && (!Array.isArray(groups) || groups.some(group => typeof group !== 'string'))) {
+        return res.status(400).json({
+          success: false,
+          error: '缺少必要参数',
+          message: 'groups 必须是通知分组ID数组'
+        });
+      }
+
+      const client = await connectUser(userId);
+      const markAll = !groups || groups.length === 0;
+      await client.markActivity({
+        feed_group_id: NOTIFICATION_FEED_GROUP,
+        feed_id: userId,
+        ...(markAll ? { mark_all_read: true, mark_all_seen: true } : { mark_read: groups, mark_seen: groups })
+      });
+
+      res.json({
+        success: true,
+        data: {
+          userId,
+          markedAll: markAll,
+          groups: markAll ? [] : groups,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('标记通知已读失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '标记通知已读失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取用户兴趣偏好
+   */
+  app.get('/api/user/:userId/preferences', async (req, res) => {
+    try {
+      const { userId } = req.params;
+
+      res.json({
+        success: true,
+        data: {
+          userId,
+          preferences: await userPreferences.get(userId),
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('获取用户偏好失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取用户偏好失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 修改用户兴趣偏好（只修改提供了的字段，数组字段整体替换）
+   */
+  app.put('/api/user/:userId/preferences', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { followedCategories, mutedCategories, mutedTypes, language } = req.body || {};
+      const changes: Partial<UserPreferences> = { followedCategories, mutedCategories, mutedTypes, language };
+
+      let validationError = validatePreferences(changes, pushCategories);
+      if (!validationError) {
+        try {
+          mergePreferences(await userPreferences.get(userId), changes);
+        } catch (error) {
+          validationError = error instanceof Error ? error.message : String(error);
+        }
+      }
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: '偏好设置无效',
+          message: validationError
+        });
+      }
+
+      const preferences = await userPreferences.update(userId, changes);
+
+      res.json({
+        success: true,
+        data: {
+          message: '偏好设置已保存',
+          userId,
+          preferences,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('保存用户偏好失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '保存用户偏好失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取用户信息
+   */
+  app.get('/api/user/:userId/info', async (req, res) => {
+    try {
+      const { userId } = req.params;
+
+      // 首先检查用户是否存在
+      try {
+        const userResponse = await streamClient.queryUsers({ 
+          payload: { 
+            filter_conditions: { id: userId } 
+          } 
+        });
+        if (!userResponse.users || userResponse.users.length === 0) {
+          return res.status(404).json({
+            success: false,
+            error: '用户不存在',
+            message: `用户 ${userId} 不存在于系统中`
+          });
+        }
+      } catch (userCheckError) {
+        console.error('检查用户存在性失败:', userCheckError);
+        return res.status(404).json({
+          success: false,
+          error: '用户不存在',
+          message: `用户 ${userId} 不存在或已被删除`
+        });
+      }
+
+      await connectUser(userId);
+
+      res.json({
+        success: true,
+        data: {
+          userId,
+          connected: true,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('获取用户信息失败:', error);
+
+      // 检查是否是用户不存在的错误
+      if (error instanceof Error && error.message.includes('was deleted')) {
+        return res.status(404).json({
+          success: false,
+          error: '用户不存在',
+          message: `用户不存在或已被删除: ${error.message}`
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: '获取用户信息失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 断开用户连接
+   */
+  app.post('/api/user/disconnect', async (req, res) => {
+    try {
+      const { userId } = getAuthUser(res);
+
+      // 只断开调用者自己的会话，不影响其他用户
+      const disconnected = await sessionPool.release(userId);
+
+      if (disconnected) {
+        res.json({
+          success: true,
+          message: '用户连接已断开',
+          data: {
+            disconnectedUser: userId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      } else {
+        res.json({
+          success: true,
+          message: '当前没有连接的用户',
+          data: {
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+    } catch (error) {
+      console.error('断开用户连接失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '断开用户连接失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 修改密码，修改后该用户之前签发的访问令牌和刷新令牌全部失效（其他设备需要重新登录），
+   * 返回当前客户端使用的新令牌
+   */
+  app.put('/api/user/:userId/password', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { currentPassword, newPassword } = req.body || {};
+
+      if (!credentialStore.verify(userId, currentPassword)) {
+        return res.status(403).json({
+          success: false,
+          error: '当前密码不正确'
+        });
+      }
+
+      const invalid = validatePassword(newPassword);
+      if (invalid) {
+        return res.status(400).json({
+          success: false,
+          error: '新密码不符合要求',
+          message: invalid
+        });
+      }
+
+      credentialStore.setPassword(userId, newPassword);
+      const revokedRefreshTokens = refreshTokenStore.revokeAllForUser(userId);
+
+      console.log(`🔑 用户 ${userId} 修改了密码，吊销 ${revokedRefreshTokens} 个刷新令牌`);
+
+      res.json({
+        success: true,
+        data: {
+          userId,
+          revokedRefreshTokens,
+          tokens: issueTokens(userId),
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('修改密码失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '修改密码失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取所有用户列表
+   */
+  app.get('/api/users', async (req, res) => {
+    try {
+      const { limit = 30, offset = 0 } = req.query;
+
+      // 使用 Stream Node SDK 的 queryUsers 方法
+      const response = await streamClient.queryUsers({
+        payload: {
+          filter_conditions: {},
+          sort: [{ field: 'created_at', direction: -1 }],
+          limit: parseInt(limit as string),
+          offset: parseInt(offset as string)
+        }
+      });
+
+      res.json({
+        success: true,
+        data: {
+          users: response.users || [],
+          total: response.users?.length || 0,
+          pagination: {
+            limit: parseInt(limit as string),
+            offset: parseInt(offset as string),
+            hasMore: (response.users?.length || 0) === parseInt(limit as string)
+          }
+        }
+      });
+    } catch (error) {
+      console.error('获取用户列表失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取用户列表失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 创建新用户
+   */
+  app.post('/api/users', async (req, res) => {
+    try {
+      const { id, name, image, role = 'user', custom = {} } = req.body;
+
+      if (!id) {
+        return res.status(400).json({
+          success: false,
+          error: '用户ID是必需的'
+        });
+      }
+
+      // 管理员权限来自用户角色，只有管理员可以设置角色或覆盖已有用户
+      const isAdmin = await isAdminUser(streamClient, getAuthUser(res).userId);
+      if (!isAdmin && req.body.role !== undefined) {
+        return res.status(403).json({
+          success: false,
+          error: '需要管理员权限',
+          message: '只有管理员可以设置用户角色'
+        });
+      }
+
+      const existing = await streamClient.queryUsers({
+        payload: {
+          filter_conditions: { id: { $eq: id } },
+          limit: 1
+        }
+      });
+      if (!isAdmin && (existing.users || []).length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: '用户已存在',
+          message: `用户 ${id} 已存在`
+        });
+      }
+
+      const newUser = {
+        id,
+        role,
+        name: name || `用户${id}`,
+        image: image || `https://ui-avatars.com/api/?name=${encodeURIComponent(name || id)}&background=random`,
+        custom
+      };
+
+      const response = await streamClient.upsertUsers([newUser]);
+
+      console.log(`👤 创建用户成功: ${id}`);
+
+      res.json({
+        success: true,
+        data: {
+          user: newUser,
+          response: response
+        }
+      });
+    } catch (error) {
+      console.error('创建用户失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '创建用户失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取单个用户详情
+   */
+  app.get('/api/users/:userId', async (req, res) => {
+    try {
+      const { userId } = req.params;
+
+      const response = await streamClient.queryUsers({
+        payload: {
+          filter_conditions: { id: { $eq: userId } },
+          limit: 1
+        }
+      });
+
+      if (!response.users || response.users.length === 0) {
+        return res.status(404).json({
+          success: false,
+          error: '用户不存在'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          user: response.users[0]
+        }
+      });
+    } catch (error) {
+      console.error('获取用户详情失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取用户详情失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 更新用户信息
+   */
+  app.put('/api/users/:userId', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { name, image, role, custom = {} } = req.body;
+
+      if (role !== undefined && !(await isAdminUser(streamClient, getAuthUser(res).userId))) {
+        return res.status(403).json({
+          success: false,
+          error: '需要管理员权限',
+          message: '只有管理员可以修改用户角色'
+        });
+      }
+
+      // 构建更新数据
+      const updateData: any = { id: userId };
+      if (name !== undefined) updateData.name = name;
+      if (image !== undefined) updateData.image = image;
+      if (role !== undefined) updateData.role = role;
+      if (Object.keys(custom).length > 0) {
+        // 与已保存的 custom 合并，只修改请求中的字段；custom.preferences 只能通过偏好接口修改
+        const existing = await streamClient.queryUsers({
+          payload: {
+            filter_conditions: { id: { $eq: userId } },
+            limit: 1
+          }
+        });
+        const current = existing.users?.[0]?.custom || {};
+        const merged: Record<string, any> = { ...current, ...custom };
+        if (current.preferences !== undefined) {
+          merged.preferences = current.preferences;
+        } else {
+          delete merged.preferences;
+        }
+        updateData.custom = merged;
+      }
+
+      const response = await streamClient.updateUsersPartial({
+        users: [
+          {
+            id: userId,
+            set: updateData
+          }
+        ]
+      });
+
+      console.log(`👤 更新用户成功: ${userId}`);
+
+      res.json({
+        success: true,
+        data: {
+          user: updateData,
+          response: response
+        }
+      });
+    } catch (error) {
+      console.error('更新用户失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '更新用户失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 删除用户
+   */
+  app.delete('/api/users/:userId', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { hard_delete = false } = req.query;
+
+      const response = await streamClient.deleteUsers({
+        user_ids: [userId],
+        user: hard_delete === 'true' ? 'hard' : 'soft'
+      });
+
+      // 删除后不能再登录或刷新令牌
+      const revokedRefreshTokens = refreshTokenStore.revokeAllForUser(userId);
+      credentialStore.remove(userId);
+      await sessionPool.release(userId);
+
+      console.log(`👤 删除用户成功: ${userId} (${hard_delete === 'true' ? '硬删除' : '软删除'})`);
+
+      res.json({
+        success: true,
+        data: {
+          userId,
+          deleteType: hard_delete === 'true' ? 'hard' : 'soft',
+          revokedRefreshTokens,
+          response: response
+        }
+      });
+    } catch (error) {
+      console.error('删除用户失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '删除用户失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 更新用户信息
+   */
+  app.put('/api/users/:userId', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { name, image, custom = {} } = req.body;
+
+      const updatedUser = {
+        id: userId,
+        name,
+        image,
+        custom
+      };
+
+      // 移除undefined的字段
+      Object.keys(updatedUser).forEach(key => {
+        if (updatedUser[key as keyof typeof updatedUser] === undefined) {
+          delete updatedUser[key as keyof typeof updatedUser];
+        }
+      });
+
+      const response = await streamClient.updateUsersPartial({
+        users: [{
+          id: userId,
+          set: updatedUser
+        }]
+      });
+
+      console.log(`👤 更新用户成功: ${userId}`);
+
+      res.json({
+        success: true,
+        data: {
+          user: updatedUser,
+          response: response
+        }
+      });
+    } catch (error) {
+      console.error('更新用户失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '更新用户失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 删除用户
+   */
+  app.delete('/api/users/:userId', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { hard = false } = req.query;
+
+      const response = await streamClient.deleteUsers({
+        user_ids: [userId],
+        user: hard === 'true' ? 'hard' : 'soft'
+      });
+
+      console.log(`🗑️ 删除用户${hard === 'true' ? '(硬删除)' : '(软删除)'}: ${userId}`);
+
+      res.json({
+        success: true,
+        data: {
+          userId,
+          deleteType: hard === 'true' ? 'hard' : 'soft',
+          response: response
+        }
+      });
+    } catch (error) {
+      console.error('删除用户失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '删除用户失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 关注用户 - 使用Stream SDK原生功能
+   */
+  app.post('/api/user/:userId/follow/:targetUserId', async (req, res) => {
+    try {
+      const { userId, targetUserId } = req.params;
+
+      if (userId === targetUserId) {
+        return res.status(400).json({
+          success: false,
+          error: '不能关注自己'
+        });
+      }
+
+      const client = await connectUser(userId);
+
+      // user 和 foryou feed 都关注对方，失败时撤销已建立的关注
+      const created = await followUser(client, userId, targetUserId);
+
+      res.json({
+        success: true,
+        message: '关注成功',
+        data: {
+          userId,
+          targetUserId,
+          created,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('关注用户失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '关注用户失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 取消关注用户 - 使用Stream SDK原生功能
+   */
+  app.delete('/api/user/:userId/follow/:targetUserId', async (req, res) => {
+    try {
+      const { userId, targetUserId } = req.params;
+
+      const client = await connectUser(userId);
+
+      // 删除所有 feed 组的关注，失败时恢复已删除的关注
+      const removed = await unfollowUser(client, userId, targetUserId);
+
+      res.json({
+        success: true,
+        message: '取消关注成功',
+        data: {
+          userId,
+          targetUserId,
+          removed,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('取消关注失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '取消关注失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 检查关注状态 - 使用Stream SDK原生功能
+   */
+  app.get('/api/user/:userId/follow/:targetUserId/status', async (req, res) => {
+    try {
+      const { userId, targetUserId } = req.params;
+
+      const client = await connectUser(userId);
+
+      // 使用Stream SDK查询关注状态
+      const followsResult = await client.queryFollows({
+        filter: {
+          source: `user:${userId}`,
+          target: `user:${targetUserId}`
+        },
+        limit: 1
+      });
+
+      const isFollowing = followsResult.follows && followsResult.follows.length > 0;
+
+      res.json({
+        success: true,
+        data: {
+          userId,
+          targetUserId,
+          isFollowing,
+          followInfo: followsResult.follows?.[0] || null,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('检查关注状态失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '检查关注状态失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  // 关注列表每页的最大数量
+  const MAX_FOLLOW_PAGE_SIZE = 100;
+  // 统计粉丝数时最多查询的关注关系数量，超过时按比例估算
+  const MAX_COUNTED_FOLLOWS = 500;
+
+  /**
+   * 是否是用户之间（来自 user feed）的关注，不包括 foryou 等其他 feed 组的关注
+   */
+  function isUserFollow(follow: FollowResponse): boolean {
+    return follow.source_feed.group_id === 'user';
+  }
+
+  /**
+   * 获取用户的粉丝数和关注数
+   *
+   * 关注某个用户时 foryou feed 也会关注对方的 user feed，user feed 的 follower_count 包含这些关注，
+   * 所以粉丝数只统计来自 user feed 的关注：最多查询 MAX_COUNTED_FOLLOWS 个关注关系，
+   * 更多时按其中 user feed 关注的比例和 follower_count 估算（approximate 为 true）；关注数直接使用 following_count。
+   */
+  async function getFollowCounts(client: FeedsClient, userId: string) {
+    const { feed } = await client.feed('user', userId).getOrCreate({ limit: 1 });
+
+    let scanned = 0;
+    let followers = 0;
+    let next: string | undefined;
+    do {
+      const result = await client.queryFollows({ filter: { target_feed: `user:${userId}` }, limit: 100, ...(next ? { next } : {}) });
+      scanned += result.follows.length;
+      followers += result.follows.filter(isUserFollow).length;
+      next = result.next;
+    } while (next && scanned < MAX_COUNTED_FOLLOWS);
+
+    const approximate = !!next;
+    return {
+      followers: approximate ? Math.round((feed.follower_count || 0) * followers / scanned) : followers,
+      following: feed.following_count || 0,
+      approximate
+    };
+  }
+
+  /**
+   * 分页查询关注关系（最近关注的在前），只保留 accept 接受的关注（关注关系不能按关注者的 feed 组查询）
+   */
+  async function queryFollowPage(
+    req: express.Request,
+    client: FeedsClient,
+    filter: Record<string, unknown>,
+    accept: (follow: FollowResponse) => boolean = () => true
+  ) {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, MAX_FOLLOW_PAGE_SIZE);
+    const page = await queryFilteredPage(
+      limit,
+      { next: req.query.next as string, prev: req.query.prev as string },
+      async (pageLimit, cursor) => {
+        const result = await client.queryFollows({
+          filter,
+          sort: [{ field: 'created_at', direction: -1 }],
+          limit: pageLimit,
+          ...cursor
+        });
+        return { items: result.follows, next: result.next, prev: result.prev };
+      },
+      accept
+    );
+    return { follows: page.items, next: page.next, prev: page.prev };
+  }
+
+  /**
+   * 找出 otherUserIds 中与 userId 互相关注的用户（反方向查询一次 queryFollows）
+   * @param direction following：otherUserIds 是 userId 关注的用户，查询他们是否关注了 userId；followers：反之
+   */
+  async function findMutualUserIds(
+    client: FeedsClient,
+    userId: string,
+    otherUserIds: string[],
+    direction: 'following' | 'followers'
+  ): Promise<Set<string>> {
+    if (otherUserIds.length === 0) {
+      return new Set();
+    }
+
+    const otherFeeds = otherUserIds.map(id => `user:${id}`);
+    const result = await client.queryFollows({
+      filter: direction === 'following'
+        ? { source_feed: { $in: otherFeeds }, target_feed: `user:${userId}` }
+        : { source_feed: `user:${userId}`, target_feed: { $in: otherFeeds } },
+      limit: otherUserIds.length
+    });
+    return new Set(result.follows.map(follow =>
+      (direction === 'following' ? follow.source_feed : follow.target_feed).id.replace('user:', '')
+    ));
+  }
+
+  /**
+   * 获取用户关注列表（分页，?limit= 最多 100），每个用户带有 mutual 表示是否互相关注
+   */
+  app.get('/api/user/:userId/following', async (req, res) => {
+    try {
+      const { userId } = req.params;
+
+      const client = await connectUser(userId);
+
+      const [followsResult, counts] = await Promise.all([
+        queryFollowPage(req, client, { source_feed: `user:${userId}` }),
+        getFollowCounts(client, userId)
+      ]);
+
+      const followedIds = followsResult.follows.map(follow => follow.target_feed.id.replace('user:', ''));
+      const mutualIds = await findMutualUserIds(client, userId, followedIds, 'following');
+
+      const followingList = followsResult.follows.map((follow, index) => ({
+        userId: followedIds[index],
+        followedAt: follow.created_at,
+        status: follow.status,
+        mutual: mutualIds.has(followedIds[index])
+      }));
+
+      res.json({
+        success: true,
+        data: {
+          userId,
+          following: followingList,
+          count: counts.following,
+          counts,
+          pagination: {
+            next: followsResult.next || null,
+            prev: followsResult.prev || null,
+            hasNext: !!followsResult.next,
+            hasPrev: !!followsResult.prev
+          },
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('获取关注列表失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取关注列表失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取用户的粉丝列表（分页），每个用户带有 mutual 表示是否互相关注
+   */
+  app.get('/api/user/:userId/followers', async (req, res) => {
+    try {
+      const { userId } = req.params;
+
+      const client = await connectUser(userId);
+
+      const [followsResult, counts] = await Promise.all([
+        queryFollowPage(req, client, { target_feed: `user:${userId}` }, isUserFollow),
+        getFollowCounts(client, userId)
+      ]);
+
+      const follows = followsResult.follows;
+      const followerIds = follows.map(follow => follow.source_feed.id.replace('user:', ''));
+      const mutualIds = await findMutualUserIds(client, userId, followerIds, 'followers');
+
+      const followers = follows.map((follow, index) => ({
+        userId: followerIds[index],
+        followedAt: follow.created_at,
+        status: follow.status,
+        mutual: mutualIds.has(followerIds[index])
+      }));
+
+      res.json({
+        success: true,
+        data: {
+          userId,
+          followers,
+          count: counts.followers,
+          counts,
+          pagination: {
+            next: followsResult.next || null,
+            prev: followsResult.prev || null,
+            hasNext: !!followsResult.next,
+            hasPrev: !!followsResult.prev
+          },
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('获取粉丝列表失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取粉丝列表失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 收藏活动 - 使用Stream SDK原生功能
+   */
+  app.post('/api/user/:userId/bookmark/:activityId', async (req, res) => {
+    try {
+      const { userId, activityId } = req.params;
+      const { folder_id, custom } = req.body;
+
+      const client = await connectUser(userId);
+
+      // 使用Stream SDK的收藏功能
+      const bookmarkResult = await client.addBookmark({
+        activity_id: activityId,
+        folder_id,
+        custom
+      });
+
+      res.json({
+        success: true,
+        message: '收藏成功',
+        data: {
+          userId,
+          activityId,
+          bookmark: bookmarkResult.bookmark,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('收藏活动失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '收藏活动失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 取消收藏活动 - 使用Stream SDK原生功能
+   */
+  app.delete('/api/user/:userId/bookmark/:activityId', async (req, res) => {
+    try {
+      const { userId, activityId } = req.params;
+      const { folder_id } = req.query;
+
+      const client = await connectUser(userId);
+
+      // 使用Stream SDK的取消收藏功能
+      const unbookmarkResult = await client.deleteBookmark({
+        activity_id: activityId,
+        folder_id: folder_id as string
+      });
+
+      res.json({
+        success: true,
+        message: '取消收藏成功',
+        data: {
+          userId,
+          activityId,
+          unbookmarkResult,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('取消收藏失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '取消收藏失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取用户收藏列表 - 使用Stream SDK原生功能
+   */
+  app.get('/api/user/:userId/bookmarks', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { limit = 20, next, prev, folder_id } = req.query;
+
+      const client = await connectUser(userId);
+
+      // 构建查询参数
+      const queryParams: any = {
+        limit: parseInt(limit as string),
+        filter: {
+          user_id: userId
+        }
+      };
+
+      if (next) queryParams.next = next as string;
+      if (prev) queryParams.prev = prev as string;
+      if (folder_id) queryParams.filter.folder_id = folder_id as string;
+
+      // 使用Stream SDK查询用户的收藏列表
+      const bookmarksResult = await client.queryBookmarks(queryParams);
+
+      // 将收藏数据转换为与Feed API一致的格式
+      const activities = (bookmarksResult.bookmarks || []).map(bookmark => {
+        // 确保每个收藏都有对应的活动数据
+        if (bookmark.activity) {
+          return {
+            id: bookmark.activity.id,
+            text: bookmark.activity.text || '无文本内容',
+            type: bookmark.activity.type || 'post',
+            time: bookmark.activity.created_at || bookmark.created_at || new Date().toISOString(),
+            user: bookmark.activity.user || bookmark.user || { id: userId },
+            // 保留原始收藏信息
+            bookmark_info: {
+              created_at: bookmark.created_at,
+              updated_at: bookmark.updated_at,
+              folder: bookmark.folder
+            }
+          };
+        }
+        return null;
+      }).filter(Boolean); // 过滤掉null值
+
+      res.json({
+        success: true,
+        data: {
+          userId,
+          activities: activities, // 使用activities字段以保持与其他Feed API的一致性
+          total: activities.length,
+          pagination: {
+            next: bookmarksResult.next || null,
+            prev: bookmarksResult.prev || null,
+            hasNext: !!bookmarksResult.next,
+            hasPrev: !!bookmarksResult.prev
+          },
+          ...await includeViewerState(req, userId, activities as Array<{ id: string }>),
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('获取收藏列表失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取收藏列表失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 检查活动收藏状态 - 使用Stream SDK原生功能
+   */
+  app.get('/api/user/:userId/bookmark/:activityId/status', async (req, res) => {
+    try {
+      const { userId, activityId } = req.params;
+
+      const client = await connectUser(userId);
+
+      // 使用Stream SDK查询收藏状态
+      const bookmarksResult = await client.queryBookmarks({
+        filter: {
+          user_id: userId,
+          activity_id: activityId
+        },
+        limit: 1
+      });
+
+      const isBookmarked = bookmarksResult.bookmarks && bookmarksResult.bookmarks.length > 0;
+
+      res.json({
+        success: true,
+        data: {
+          userId,
+          activityId,
+          isBookmarked,
+          bookmarkInfo: bookmarksResult.bookmarks?.[0] || null,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('检查收藏状态失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '检查收藏状态失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  // ==================== 互动（reaction）API ====================
+
+  /**
+   * 获取可用的互动类型
+   */
+  app.get('/api/reaction-types', (req, res) => {
+    res.json({
+      success: true,
+      data: {
+        types: reactionTypes.list(),
+        timestamp: new Date().toISOString()
+      }
+    });
+  });
+
+  /**
+   * 读取并校验路径中的互动类型（原有的点赞接口没有 :type，视为 like）
+   * @returns 不支持的类型时直接返回 400 并返回 null
+   */
+  function getReactionType(req: express.Request, res: express.Response): string | null {
+    const type = (req.params.type as string | undefined) || 'like';
+    if (!reactionTypes.has(type)) {
+      res.status(400).json({
+        success: false,
+        error: '不支持的互动类型',
+        message: `可用的互动类型: ${reactionTypes.list().join(', ')}`
+      });
+      return null;
+    }
+    return type;
+  }
+
+  /**
+   * 获取活动的互动汇总：数量来自活动的 reaction_groups，当前用户的互动按用户筛选查询
+   */
+  async function getActivityReactionSummary(activityId: string, userId: string): Promise<ReactionSummary> {
+    const [{ activity }, own] = await Promise.all([
+      streamClient.feeds.getActivity({ id: activityId }),
+      streamClient.feeds.queryActivityReactions({
+        activity_id: activityId,
+        filter: { user_id: { $eq: userId } },
+        limit: 25
+      })
+    ]);
+    return summarizeReactions(activity.reaction_groups, own.reactions || [], reactionTypes);
+  }
+
+  /**
+   * 获取评论的互动汇总
+   */
+  async function getCommentReactionSummary(commentId: string, userId: string): Promise<ReactionSummary> {
+    const [{ comment }, own] = await Promise.all([
+      streamClient.feeds.getComment({ id: commentId }),
+      streamClient.feeds.queryCommentReactions({
+        id: commentId,
+        filter: { user_id: { $eq: userId } },
+        limit: 25
+      })
+    ]);
+    return summarizeReactions(comment.reaction_groups, own.reactions || [], reactionTypes);
+  }
+
+  /**
+   * 添加活动互动（同一用户可以同时有多种类型的互动）
+   */
+  async function addActivityReaction(req: express.Request, res: express.Response) {
+    try {
+      const userId = req.params.userId as string;
+      const activityId = req.params.activityId as string;
+      const type = getReactionType(req, res);
+      if (!type) {
+        return;
+      }
+
+      const client = await connectUser(userId);
+
+      const result = await client.addActivityReaction({
+        activity_id: activityId,
+        type,
+        create_notification_activity: true,
+        skip_push: true,
+        custom: req.body?.custom
+      });
+
+      res.json({
+        success: true,
+        data: {
+          userId,
+          activityId,
+          type,
+          reaction: result.reaction,
+          reactions: await getActivityReactionSummary(activityId, userId),
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return res.status(404).json({
+          success: false,
+          error: '活动不存在'
+        });
+      }
+      console.error('添加活动互动失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '添加活动互动失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  }
+
+  /**
+   * 取消活动互动
+   */
+  async function deleteActivityReaction(req: express.Request, res: express.Response) {
+    try {
+      const userId = req.params.userId as string;
+      const activityId = req.params.activityId as string;
+      const type = getReactionType(req, res);
+      if (!type) {
+        return;
+      }
+
+      const client = await connectUser(userId);
+
+      await client.deleteActivityReaction({
+        activity_id: activityId,
+        type
+      });
+
+      res.json({
+        success: true,
+        data: {
+          userId,
+          activityId,
+          type,
+          reactions: await getActivityReactionSummary(activityId, userId),
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return res.status(404).json({
+          success: false,
+          error: '未找到互动记录'
+        });
+      }
+      console.error('取消活动互动失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '取消活动互动失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  }
+
+  /**
+   * 添加评论互动
+   */
+  async function addCommentReaction(req: express.Request, res: express.Response) {
+    try {
+      const userId = req.params.userId as string;
+      const commentId = req.params.commentId as string;
+      const type = getReactionType(req, res);
+      if (!type) {
+        return;
+      }
+
+      const client = await connectUser(userId);
+
+      const result = await client.addCommentReaction({
+        id: commentId,
+        type,
+        create_notification_activity: true,
+        skip_push: true
+      });
+
+      res.json({
+        success: true,
+        data: {
+          userId,
+          commentId,
+          type,
+          reaction: result.reaction,
+          reactions: await getCommentReactionSummary(commentId, userId),
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return res.status(404).json({
+          success: false,
+          error: '评论不存在'
+        });
+      }
+      console.error('添加评论互动失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '添加评论互动失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  }
+
+  /**
+   * 取消评论互动
+   */
+  async function deleteCommentReaction(req: express.Request, res: express.Response) {
+    try {
+      const userId = req.params.userId as string;
+      const commentId = req.params.commentId as string;
+      const type = getReactionType(req, res);
+      if (!type) {
+        return;
+      }
+
+      const client = await connectUser(userId);
+
+      await client.deleteCommentReaction({
+        id: commentId,
+        type
+      });
+
+      res.json({
+        success: true,
+        data: {
+          userId,
+          commentId,
+          type,
+          reactions: await getCommentReactionSummary(commentId, userId),
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return res.status(404).json({
+          success: false,
+          error: '未找到互动记录'
+        });
+      }
+      console.error('取消评论互动失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '取消评论互动失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  }
+
+  app.post('/api/user/:userId/reactions/:activityId/:type', addActivityReaction);
+  app.delete('/api/user/:userId/reactions/:activityId/:type', deleteActivityReaction);
+  app.post('/api/user/:userId/reactions/comment/:commentId/:type', addCommentReaction);
+  app.delete('/api/user/:userId/reactions/comment/:commentId/:type', deleteCommentReaction);
+
+  // 原有的点赞接口：like 类型互动的别名
+  app.post('/api/user/:userId/like/:activityId', addActivityReaction);
+  app.delete('/api/user/:userId/like/:activityId', deleteActivityReaction);
+  app.post('/api/user/:userId/like/comment/:commentId', addCommentReaction);
+  app.delete('/api/user/:userId/like/comment/:commentId', deleteCommentReaction);
+
+  /**
+   * 获取活动的互动汇总（每种类型的数量和当前用户的互动）
+   */
+  app.get('/api/user/:userId/reactions/:activityId', async (req, res) => {
+    try {
+      const { userId, activityId } = req.params;
+
+      res.json({
+        success: true,
+        data: {
+          activityId,
+          reactions: await getActivityReactionSummary(activityId, userId),
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return res.status(404).json({
+          success: false,
+          error: '活动不存在'
+        });
+      }
+      console.error('获取活动互动失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取活动互动失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取评论的互动汇总
+   */
+  app.get('/api/user/:userId/reactions/comment/:commentId', async (req, res) => {
+    try {
+      const { userId, commentId } = req.params;
+
+      res.json({
+        success: true,
+        data: {
+          commentId,
+          reactions: await getCommentReactionSummary(commentId, userId),
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return res.status(404).json({
+          success: false,
+          error: '评论不存在'
+        });
+      }
+      console.error('获取评论互动失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取评论互动失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 检查用户对活动的点赞状态 - 使用Stream SDK原生功能
+   */
+  app.get('/api/user/:userId/like/:activityId/status', async (req, res) => {
+    try {
+      const { userId, activityId } = req.params;
+
+      // 只查询该用户的点赞记录，不受活动点赞总数影响
+      const reactionsResult = await streamClient.feeds.queryActivityReactions({
+        activity_id: activityId,
+        filter: {
+          user_id: { $eq: userId },
+          reaction_type: { $eq: 'like' }
+        },
+        limit: 1
+      });
+
+      const likeInfo = reactionsResult.reactions?.[0] || null;
+
+      res.json({
+        success: true,
+        data: {
+          userId,
+          activityId,
+          isLiked: !!likeInfo,
+          likeInfo,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('检查点赞状态失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '检查点赞状态失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取活动的点赞列表 - 使用Stream SDK原生功能
+   */
+  app.get('/api/activity/:activityId/likes', async (req, res) => {
+    try {
+      const { activityId } = req.params;
+      const { limit = 20, next, prev } = req.query;
+
+      // 注意：这里不需要connectUser，查询点赞列表是公开的，直接使用服务端客户端
+
+      // 只查询点赞类型的 reaction，分页游标才能正确对应点赞列表
+      const queryParams: any = {
+        activity_id: activityId,
+        filter: { reaction_type: { $eq: 'like' } },
+        limit: parseInt(limit as string),
+        sort: [{ field: 'created_at', direction: -1 }] // 按时间倒序
+      };
+
+      if (next) queryParams.next = next as string;
+      if (prev) queryParams.prev = prev as string;
+
+      // 使用Stream SDK查询活动的点赞列表
+      const reactionsResult = await streamClient.feeds.queryActivityReactions(queryParams);
+
+      // 转换数据格式
+      const likes = (reactionsResult.reactions || [])
+        .map((reaction: any) => ({
+          id: reaction.id,
+          userId: reaction.user_id,
+          createdAt: reaction.created_at,
+          custom: reaction.custom || {}
+        }));
+
+      res.json({
+        success: true,
+        data: {
+          activityId,
+          likes,
+          total: likes.length,
+          pagination: {
+            next: reactionsResult.next || null,
+            prev: reactionsResult.prev || null,
+            hasNext: !!reactionsResult.next,
+            hasPrev: !!reactionsResult.prev
+          },
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('获取点赞列表失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取点赞列表失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取活动的点赞数量 - 使用Stream SDK原生功能
+   */
+  app.get('/api/activity/:activityId/likes/count', async (req, res) => {
+    try {
+      const { activityId } = req.params;
+
+      // 点赞数量来自 Stream 维护的 reaction_groups 聚合，不需要逐条查询
+      const { activity } = await streamClient.feeds.getActivity({ id: activityId });
+      const likeCount = activity.reaction_groups?.like?.count || 0;
+
+      res.json({
+        success: true,
+        data: {
+          activityId,
+          likeCount,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return res.status(404).json({
+          success: false,
+          error: '活动不存在'
+        });
+      }
+      console.error('获取点赞数量失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取点赞数量失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  // ==================== 活动编辑和删除 API ====================
+
+  type OwnedActivity = { id: string; user?: { id: string }; custom?: Record<string, any> };
+
+  /**
+   * Stream 返回的“不存在”错误（错误码 16）
+   */
+  function isNotFoundError(error: unknown): boolean {
+    return (error as { code?: number })?.code === 16 ||
+      (error instanceof Error && /does not exist/i.test(error.message));
+  }
+
+  /**
+   * 获取当前用户发布的活动，不存在或不是当前用户发布的活动时直接返回错误响应
+   */
+  async function findOwnedActivity(req: express.Request, res: express.Response): Promise<OwnedActivity | null> {
+    const activityId = req.params.activityId as string;
+
+    let activity: OwnedActivity;
+    try {
+      activity = (await streamClient.feeds.getActivity({ id: activityId })).activity;
+    } catch (error) {
+      if (!isNotFoundError(error)) {
+        throw error;
+      }
+      res.status(404).json({
+        success: false,
+        error: '活动不存在'
+      });
+      return null;
+    }
+
+    const { userId } = getAuthUser(res);
+    if (activity.user?.id !== userId) {
+      res.status(403).json({
+        success: false,
+        error: '无权操作其他用户的活动',
+        message: `活动 ${activity.id} 由用户 ${activity.user?.id} 发布`
+      });
+      return null;
+    }
+    return activity;
+  }
+
+  /**
+   * 活动及其同时发布到其他 feed 的副本的ID
+   */
+  function getActivityCopyIds(activity: OwnedActivity): string[] {
+    const siblingIds: unknown = activity.custom?.sibling_ids;
+    return [activity.id, ...(Array.isArray(siblingIds) ? siblingIds.filter(id => typeof id === 'string') : [])];
+  }
+
+  /**
+   * 编辑活动内容（同时更新其他 feed 中的副本）
+   */
+  app.put('/api/activity/:activityId', async (req, res) => {
+    try {
+      const { text } = req.body || {};
+
+      if (typeof text !== 'string' || !text.trim()) {
+        return res.status(400).json({
+          success: false,
+          error: '内容不能为空'
+        });
+      }
+
+      const activity = await findOwnedActivity(req, res);
+      if (!activity) {
+        return;
+      }
+
+      const entities = await resolveTextEntities(text);
+
+      const { userId } = getAuthUser(res);
+      const client = await connectUser(userId);
+
+      const activities: ActivityResponse[] = [];
+      for (const id of getActivityCopyIds(activity)) {
+        try {
+          const result = await client.updateActivityPartial({ id, set: { text, ...entities } });
+          activities.push(result.activity);
+        } catch (error) {
+          // 副本可能已经被单独删除
+          if (!isNotFoundError(error)) {
+            throw error;
+          }
+        }
+      }
+
+      res.json({
+        success: true,
+        data: {
+          message: '活动已更新',
+          activity: activities[0],
+          updatedIds: activities.map(item => item.id),
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('编辑活动失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '编辑活动失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 删除活动（同时删除其他 feed 中的副本）
+   */
+  app.delete('/api/activity/:activityId', async (req, res) => {
+    try {
+      const activity = await findOwnedActivity(req, res);
+      if (!activity) {
+        return;
+      }
+
+      const { userId } = getAuthUser(res);
+      const client = await connectUser(userId);
+
+      const deletedIds: string[] = [];
+      for (const id of getActivityCopyIds(activity)) {
+        try {
+          await client.deleteActivity({ id });
+          deletedIds.push(id);
+        } catch (error) {
+          // 副本可能已经被单独删除
+          if (!isNotFoundError(error)) {
+            throw error;
+          }
+        }
+      }
+
+      res.json({
+        success: true,
+        data: {
+          message: '活动已删除',
+          activityId: activity.id,
+          deletedIds,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('删除活动失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '删除活动失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  // ==================== 评论相关 API ====================
+
+  // 评论列表默认包含的回复层数和每层的回复数量
+  const DEFAULT_COMMENT_DEPTH = 2;
+  const MAX_COMMENT_DEPTH = 3;
+  const DEFAULT_REPLIES_LIMIT = 3;
+
+  /**
+   * 读取评论列表的回复层数（?depth=）和每层回复数量（?repliesLimit=）
+   */
+  function getThreadOptions(req: express.Request, defaultDepth: number) {
+    const depth = parseInt(req.query.depth as string);
+    const repliesLimit = parseInt(req.query.repliesLimit as string);
+    return {
+      depth: Math.min(Math.max(isNaN(depth) ? defaultDepth : depth, 0), MAX_COMMENT_DEPTH),
+      replies_limit: Math.min(Math.max(isNaN(repliesLimit) ? DEFAULT_REPLIES_LIMIT : repliesLimit, 1), 25)
+    };
+  }
+
+  /**
+   * 为活动添加评论（提供 parentId 时为回复该评论）
+   */
+  app.post('/api/activity/:activityId/comments', async (req, res) => {
+    try {
+      const { activityId } = req.params;
+      const { userId, comment, parentId } = req.body;
+
+      if (!userId || !comment) {
+        return res.status(400).json({
+          success: false,
+          error: '缺少必要参数',
+          message: '需要提供 userId 和 comment'
+        });
+      }
+
+      // 回复的评论必须存在且属于同一个活动
+      if (parentId) {
+        let parent;
+        try {
+          parent = (await streamClient.feeds.getComment({ id: parentId })).comment;
+        } catch (error) {
+          if (!isNotFoundError(error)) {
+            throw error;
+          }
+          return res.status(404).json({
+            success: false,
+            error: '回复的评论不存在'
+          });
+        }
+        if (parent.object_id !== activityId) {
+          return res.status(400).json({
+            success: false,
+            error: '回复的评论不属于该活动',
+            message: `评论 ${parentId} 属于活动 ${parent.object_id}`
+          });
+        }
+      }
+
+      const client = await connectUser(userId);
+
+      const commentData = {
+        object_id: activityId,
+        object_type: 'activity',
+        comment: comment,
+        ...(parentId ? { parent_id: parentId } : {}),
+        create_notification_activity: true,
+        skip_push: true,
+        custom: {
+          user_id: userId,
+          timestamp: new Date().toISOString()
+        }
+      };
+
+      const result = await client.addComment(commentData);
+
+      res.json({
+        success: true,
+        data: {
+          comment: result.comment,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('添加评论失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '添加评论失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取活动的评论列表（顶层评论，每条评论带有 reply_count 和前几层回复）
+   */
+  app.get('/api/activity/:activityId/comments', async (req, res) => {
+    try {
+      const { activityId } = req.params;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const next = req.query.next as string;
+      const prev = req.query.prev as string;
+
+      const queryParams: any = {
+        object_id: activityId,
+        object_type: 'activity',
+        limit,
+        sort: 'first', // 按时间顺序排序，最早的在前
+        ...getThreadOptions(req, DEFAULT_COMMENT_DEPTH)
+      };
+
+      if (next) {
+        queryParams.next = next;
+      }
+      if (prev) {
+        queryParams.prev = prev;
+      }
+
+      const result = await streamClient.feeds.getComments(queryParams);
+
+      res.json({
+        success: true,
+        data: {
+          comments: result.comments || [],
+          next: result.next,
+          prev: result.prev,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('获取评论列表失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取评论列表失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取评论的回复（分页，?depth= 为每条回复包含的下级回复层数，默认 0）
+   */
+  app.get('/api/comment/:commentId/replies', async (req, res) => {
+    try {
+      const { commentId } = req.params;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const next = req.query.next as string;
+      const prev = req.query.prev as string;
+
+      const result = await streamClient.feeds.getCommentReplies({
+        id: commentId,
+        limit,
+        sort: 'first',
+        ...getThreadOptions(req, 0),
+        ...(next ? { next } : prev ? { prev } : {})
+      });
+
+      res.json({
+        success: true,
+        data: {
+          commentId,
+          replies: result.comments || [],
+          next: result.next,
+          prev: result.prev,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return res.status(404).json({
+          success: false,
+          error: '评论不存在'
+        });
+      }
+      console.error('获取评论回复失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取评论回复失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 删除评论
+   */
+  app.delete('/api/comments/:commentId', async (req, res) => {
+    try {
+      const { commentId } = req.params;
+      const { userId } = req.body;
+
+      if (!userId) {
+        return res.status(400).json({
+          success: false,
+          error: '缺少必要参数',
+          message: '需要提供 userId'
+        });
+      }
+
+      const client = await connectUser(userId);
+
+      await client.deleteComment({ id: commentId });
+
+      res.json({
+        success: true,
+        data: {
+          commentId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('删除评论失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '删除评论失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  // 每条评论保留的历史版本数量（保存在评论的 custom 中，避免 custom 过大）
+  const MAX_COMMENT_EDIT_HISTORY = 20;
+
+  type CommentVersion = { text: string; editedAt: string };
+
+  /**
+   * 读取评论 custom.edit_history 中保存的历史版本（从旧到新），最后编辑时间保存在 custom.edited_at
+   */
+  function getCommentEditHistory(comment: { custom?: Record<string, any> }): CommentVersion[] {
+    const history = comment.custom?.edit_history;
+    return Array.isArray(history) ? history : [];
+  }
+
+  /**
+   * 获取评论，评论不存在时返回 404
+   */
+  async function findComment(req: express.Request, res: express.Response) {
+    try {
+      return (await streamClient.feeds.getComment({ id: req.params.commentId as string })).comment;
+    } catch (error) {
+      if (!isNotFoundError(error)) {
+        throw error;
+      }
+      res.status(404).json({
+        success: false,
+        error: '评论不存在'
+      });
+      return null;
+    }
+  }
+
+  /**
+   * 编辑评论（只有评论作者可以编辑），修改前的版本保存到编辑历史
+   */
+  app.put('/api/comments/:commentId', async (req, res) => {
+    try {
+      const { commentId } = req.params;
+      const { comment: text } = req.body;
+
+      if (typeof text !== 'string' || !text.trim()) {
+        return res.status(400).json({
+          success: false,
+          error: '缺少必要参数',
+          message: '需要提供 comment'
+        });
+      }
+
+      const comment = await findComment(req, res);
+      if (!comment) {
+        return;
+      }
+
+      const userId = getAuthUser(res).userId;
+      if (comment.user?.id !== userId) {
+        return res.status(403).json({
+          success: false,
+          error: '无权编辑其他用户的评论'
+        });
+      }
+
+      if (text === comment.text) {
+        return res.json({
+          success: true,
+          data: {
+            comment,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const previous: CommentVersion = {
+        text: comment.text || '',
+        editedAt: new Date(comment.custom?.edited_at || comment.created_at).toISOString()
+      };
+      const editHistory = [...getCommentEditHistory(comment), previous].slice(-MAX_COMMENT_EDIT_HISTORY);
+
+      const client = await connectUser(userId);
+      const result = await client.updateComment({
+        id: commentId,
+        comment: text,
+        skip_push: true,
+        custom: {
+          ...comment.custom,
+          edited_at: new Date().toISOString(),
+          edit_history: editHistory
+        }
+      });
+
+      res.json({
+        success: true,
+        data: {
+          comment: result.comment,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('编辑评论失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '编辑评论失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取评论的编辑历史（从新到旧，第一条为当前版本）
+   */
+  app.get('/api/comments/:commentId/history', async (req, res) => {
+    try {
+      const comment = await findComment(req, res);
+      if (!comment) {
+        return;
+      }
+
+      const current: CommentVersion = {
+        text: comment.text || '',
+        editedAt: new Date(comment.custom?.edited_at || comment.created_at).toISOString()
+      };
+      const versions = [current, ...getCommentEditHistory(comment).slice().reverse()];
+
+      res.json({
+        success: true,
+        data: {
+          commentId: comment.id,
+          edited: !!comment.custom?.edited_at,
+          versions,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('获取评论编辑历史失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取评论编辑历史失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 检查用户是否对评论点赞
+   */
+  app.get('/api/user/:userId/like/comment/:commentId/status', async (req, res) => {
+    try {
+      const { userId, commentId } = req.params;
+
+      // 只查询该用户的点赞记录
+      const reactionsResult = await streamClient.feeds.queryCommentReactions({
+        id: commentId,
+        filter: {
+          user_id: { $eq: userId },
+          reaction_type: { $eq: 'like' }
+        },
+        limit: 1
+      });
+
+      const isLiked = (reactionsResult.reactions || []).length > 0;
+
+      res.json({
+        success: true,
+        data: {
+          commentId,
+          userId,
+          isLiked,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('检查评论点赞状态失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '检查评论点赞状态失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取评论的点赞列表
+   */
+  app.get('/api/comment/:commentId/likes', async (req, res) => {
+    try {
+      const { commentId } = req.params;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const next = req.query.next as string;
+      const prev = req.query.prev as string;
+
+      const queryParams: any = {
+        id: commentId,
+        filter: { reaction_type: { $eq: 'like' } },
+        limit
+      };
+
+      if (next) {
+        queryParams.next = next;
+      }
+      if (prev) {
+        queryParams.prev = prev;
+      }
+
+      const reactionsResult = await streamClient.feeds.queryCommentReactions(queryParams);
+
+      const likes = reactionsResult.reactions || [];
+
+      res.json({
+        success: true,
+        data: {
+          commentId,
+          likes,
+          next: reactionsResult.next,
+          prev: reactionsResult.prev,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('获取评论点赞列表失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取评论点赞列表失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取评论的点赞数量
+   */
+  app.get('/api/comment/:commentId/likes/count', async (req, res) => {
+    try {
+      const { commentId } = req.params;
+
+      // 点赞数量来自评论的 reaction_groups 聚合
+      const { comment } = await streamClient.feeds.getComment({ id: commentId });
+      const likeCount = comment.reaction_groups?.like?.count || 0;
+
+      res.json({
+        success: true,
+        data: {
+          commentId,
+          likeCount,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return res.status(404).json({
+          success: false,
+          error: '评论不存在'
+        });
+      }
+      console.error('获取评论点赞数量失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取评论点赞数量失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  // ==================== 当前用户状态 API ====================
+
+  /**
+   * 获取当前用户对一批活动和评论的状态（点赞、收藏、互动数量、是否关注作者）
+   */
+  async function getViewerState(userId: string, activityIds: string[], commentIds: string[]): Promise<ViewerState> {
+    const client = await connectUser(userId);
+    const uniqueActivityIds = [...new Set(activityIds)];
+    const uniqueCommentIds = [...new Set(commentIds)];
+
+    const [activitiesResult, commentsResult, followedUserIds] = await Promise.all([
+      uniqueActivityIds.length > 0
+        ? client.queryActivities({ filter: { id: { $in: uniqueActivityIds } }, limit: uniqueActivityIds.length })
+        : null,
+      uniqueCommentIds.length > 0
+        ? client.queryComments({ filter: { id: { $in: uniqueCommentIds } }, limit: uniqueCommentIds.length })
+        : null,
+      getFollowedUserIds(client, userId)
+    ]);
+
+    return buildViewerState(
+      activitiesResult?.activities || [],
+      commentsResult?.comments || [],
+      followedUserIds,
+      reactionTypes
+    );
+  }
+
+  /**
+   * feed 接口带有 ?include=viewerState 时，附带当前用户对本页活动的状态
+   */
+  async function includeViewerState(req: express.Request, userId: string, activities: Array<{ id: string }>) {
+    const include = String(req.query.include || '').split(',');
+    if (!include.includes('viewerState')) {
+      return {};
+    }
+    return { viewerState: await getViewerState(userId, activities.map(activity => activity.id), []) };
+  }
+
+  /**
+   * 批量获取当前用户对活动和评论的状态
+   * 请求体 { activityIds?: string[], commentIds?: string[] }，每种最多 MAX_VIEWER_STATE_IDS 个
+   */
+  app.post('/api/user/:userId/viewer-state', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { activityIds = [], commentIds = [] } = req.body || {};
+
+      for (const [field, ids] of [['activityIds', activityIds], ['commentIds', commentIds]] as const) {
+        if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string' && id)) {
+          return res.status(400).json({
+            success: false,
+            error: '参数无效',
+            message: `${field} 必须是ID数组`
+          });
+        }
+        if (ids.length > MAX_VIEWER_STATE_IDS) {
+          return res.status(400).json({
+            success: false,
+            error: '参数无效',
+            message: `${field} 最多 ${MAX_VIEWER_STATE_IDS} 个`
+          });
+        }
+      }
+
+      const state = await getViewerState(userId, activityIds, commentIds);
+
+      res.json({
+        success: true,
+        data: {
+          userId,
+          ...state,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('获取用户状态失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取用户状态失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  // ==================== 定时推送 API ====================
+
+  const PUSH_AUDIENCES: PushAudience[] = ['self', 'all'];
+  const SCHEDULED_PUSH_STATUSES: ScheduledPushStatus[] = ['pending', 'completed', 'cancelled', 'failed'];
+
+  /**
+   * 获取当前用户可以管理的定时推送（管理员可以管理所有推送）
+   */
+  async function findManageablePush(req: express.Request, res: express.Response): Promise<ScheduledPush | null> {
+    const push = pushScheduler.get(req.params.pushId as string);
+    if (!push) {
+      res.status(404).json({
+        success: false,
+        error: '定时推送不存在'
+      });
+      return null;
+    }
+
+    const { userId } = getAuthUser(res);
+    if (push.createdBy !== userId && !(await isAdminUser(streamClient, userId))) {
+      res.status(403).json({
+        success: false,
+        error: '无权操作其他用户的定时推送',
+        message: `定时推送 ${push.id} 由用户 ${push.createdBy} 创建`
+      });
+      return null;
+    }
+    return push;
+  }
+
+  /**
+   * 创建定时推送（publishAt 一次性发布，或 cron 周期发布）
+   */
+  app.post('/api/pushes', async (req, res) => {
+    try {
+      const { userId } = getAuthUser(res);
+      const { text, type = 'announcement', priority, category, expiresAt, publishAt, cron, audience = 'self' } = req.body || {};
+
+      if (!text) {
+        return res.status(400).json({
+          success: false,
+          error: '内容不能为空'
+        });
+      }
+
+      const metadataError = validatePushMetadata({ priority, category, expiresAt }, pushCategories);
+      const scheduleError = validateSchedule({ publishAt, cron, expiresAt });
+      const audienceError = PUSH_AUDIENCES.includes(audience) ? null : `audience 必须是 ${PUSH_AUDIENCES.join(', ')} 之一`;
+      if (metadataError || scheduleError || audienceError) {
+        return res.status(400).json({
+          success: false,
+          error: '推送参数无效',
+          message: metadataError || scheduleError || audienceError
+        });
+      }
+
+      if (audience === 'all' && !(await isAdminUser(streamClient, userId))) {
+        return res.status(403).json({
+          success: false,
+          error: '需要管理员权限',
+          message: `用户 ${userId} 不是管理员，只能定时推送给自己`
+        });
+      }
+
+      const push = pushScheduler.create(userId, {
+        content: { text, type, priority, category, expiresAt },
+        audience,
+        publishAt,
+        cron
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          message: '定时推送已创建',
+          push,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('创建定时推送失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '创建定时推送失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取定时推送列表（默认只返回自己创建的，管理员可以通过 ?all=true 查看全部）
+   */
+  app.get('/api/pushes', async (req, res) => {
+    try {
+      const { userId } = getAuthUser(res);
+      const status = (req.query.status as ScheduledPushStatus) || undefined;
+
+      if (status && !SCHEDULED_PUSH_STATUSES.includes(status)) {
+        return res.status(400).json({
+          success: false,
+          error: '筛选条件无效',
+          message: `status 必须是 ${SCHEDULED_PUSH_STATUSES.join(', ')} 之一`
+        });
+      }
+
+      const showAll = req.query.all === 'true' && await isAdminUser(streamClient, userId);
+      const pushes = pushScheduler.list({ createdBy: showAll ? undefined : userId, status });
+
+      res.json({
+        success: true,
+        data: {
+          pushes,
+          total: pushes.length,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('获取定时推送列表失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取定时推送列表失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 获取定时推送详情
+   */
+  app.get('/api/pushes/:pushId', async (req, res) => {
+    try {
+      const push = await findManageablePush(req, res);
+      if (!push) {
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          push,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('获取定时推送失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取定时推送失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 修改待发布的定时推送（内容、优先级、分类或发布时间）
+   */
+  app.put('/api/pushes/:pushId', async (req, res) => {
+    try {
+      const push = await findManageablePush(req, res);
+      if (!push) {
+        return;
+      }
+
+      const { text, type, priority, category, expiresAt, publishAt, cron } = req.body || {};
+
+      if (text !== undefined && !text) {
+        return res.status(400).json({
+          success: false,
+          error: '内容不能为空'
+        });
+      }
+
+      const scheduleChanged = publishAt !== undefined || cron !== undefined;
+      const metadataError = validatePushMetadata({ priority, category, expiresAt }, pushCategories);
+      const scheduleError = scheduleChanged || expiresAt !== undefined
+        ? validateSchedule({
+          publishAt: scheduleChanged ? publishAt : push.publishAt,
+          cron: scheduleChanged ? cron : push.cron,
+          expiresAt: expiresAt !== undefined ? expiresAt : push.content.expiresAt
+        })
+        : null;
+      if (metadataError || scheduleError) {
+        return res.status(400).json({
+          success: false,
+          error: '推送参数无效',
+          message: metadataError || scheduleError
+        });
+      }
+
+      const content: Partial<PushContent> = {};
+      if (text !== undefined) content.text = text;
+      if (type !== undefined) content.type = type;
+      if (priority !== undefined) content.priority = priority;
+      if (category !== undefined) content.category = category;
+      if (expiresAt !== undefined) content.expiresAt = expiresAt;
+
+      let updated: ScheduledPush | null;
+      try {
+        updated = pushScheduler.update(push.id, {
+          content,
+          ...(scheduleChanged ? { publishAt, cron } : {})
+        });
+      } catch (error) {
+        return res.status(409).json({
+          success: false,
+          error: '定时推送不能修改',
+          message: error instanceof Error ? error.message : '未知错误'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          message: '定时推送已更新',
+          push: updated,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('修改定时推送失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '修改定时推送失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 取消待发布的定时推送
+   */
+  app.delete('/api/pushes/:pushId', async (req, res) => {
+    try {
+      const push = await findManageablePush(req, res);
+      if (!push) {
+        return;
+      }
+
+      let cancelled: ScheduledPush | null;
+      try {
+        cancelled = pushScheduler.cancel(push.id);
+      } catch (error) {
+        return res.status(409).json({
+          success: false,
+          error: '定时推送不能取消',
+          message: error instanceof Error ? error.message : '未知错误'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          message: '定时推送已取消',
+          push: cancelled,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('取消定时推送失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '取消定时推送失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  // ==================== 管理员 API ====================
+
+  /**
+   * 获取签名密钥列表（不包含密钥内容）
+   */
+  app.get('/api/admin/keys', requireAdmin, (req, res) => {
+    res.json({
+      success: true,
+      data: {
+        keys: tokenProvider.describeKeys(),
+        timestamp: new Date().toISOString()
+      }
+    });
+  });
+
+  /**
+   * 查询令牌由哪个密钥签名
+   */
+  app.post('/api/admin/keys/inspect', requireAdmin, (req, res) => {
+    const { token } = req.body || {};
+
+    if (!token) {
+      return res.status(400).json({
+        success: false,
+        error: '缺少必要参数',
+        message: '需要提供 token'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...tokenProvider.inspectToken(token),
+        timestamp: new Date().toISOString()
+      }
+    });
+  });
+
+  /**
+   * 创建全局广播任务：把推送发布到所有用户的 foryou feed
+   */
+  app.post('/api/broadcasts', requireAdmin, (req, res) => {
+    try {
+      const { text, type = 'announcement', priority, category, expiresAt } = req.body || {};
+
+      if (!text) {
+        return res.status(400).json({
+          success: false,
+          error: '内容不能为空'
+        });
+      }
+
+      const metadataError = validatePushMetadata({ priority, category, expiresAt }, pushCategories);
+      if (metadataError) {
+        return res.status(400).json({
+          success: false,
+          error: '推送参数无效',
+          message: metadataError
+        });
+      }
+
+      const job = broadcastRunner.create({ text, type, priority, category, expiresAt }, getAuthUser(res).userId);
+      broadcastRunner.runInBackground(job.id);
+
+      res.status(202).json({
+        success: true,
+        data: {
+          message: '广播任务已创建',
+          broadcast: broadcastRunner.getProgress(job),
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('创建广播任务失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '创建广播任务失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 查询广播任务进度（已投递、失败和剩余用户数）
+   */
+  app.get('/api/broadcasts/:broadcastId', requireAdmin, (req, res) => {
+    const job = broadcastRunner.get(req.params.broadcastId as string);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: '广播任务不存在'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        broadcast: broadcastRunner.getProgress(job),
+        timestamp: new Date().toISOString()
+      }
+    });
+  });
+
+  /**
+   * 继续失败的广播任务（从上次保存的进度开始）
+   */
+  app.post('/api/broadcasts/:broadcastId/resume', requireAdmin, (req, res) => {
+    const job = broadcastRunner.get(req.params.broadcastId as string);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: '广播任务不存在'
+      });
+    }
+
+    if (job.status !== 'completed') {
+      broadcastRunner.runInBackground(job.id);
+    }
+
+    res.status(202).json({
+      success: true,
+      data: {
+        broadcast: broadcastRunner.getProgress(job),
+        timestamp: new Date().toISOString()
+      }
+    });
+  });
+
+  /**
+   * 过期推送报告（dry-run，只列出将要删除的推送）
+   */
+  app.get('/api/admin/expired-pushes', requireAdmin, async (req, res) => {
+    try {
+      const report = await pushExpirySweeper.sweep({ dryRun: true });
+
+      res.json({
+        success: true,
+        data: {
+          report,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('获取过期推送失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '获取过期推送失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  /**
+   * 立即清理过期推送，?dryRun=true 时只报告不删除
+   */
+  app.post('/api/admin/expired-pushes/sweep', requireAdmin, async (req, res) => {
+    try {
+      const report = await pushExpirySweeper.sweep({ dryRun: req.query.dryRun === 'true' });
+
+      res.json({
+        success: true,
+        data: {
+          report,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('清理过期推送失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '清理过期推送失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  });
+
+  // 提供静态文件
+  const publicDir = config.publicDir;
+  if (publicDir) {
+    app.get('/', (req, res) => {
+      res.sendFile(path.join(publicDir, 'index.html'));
+    });
+  }
+
+  // 错误处理中间件
+  app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    console.error('服务器错误:', err);
+    res.status(500).json({
+      success: false,
+      error: '服务器内部错误',
+      message: err.message
+    });
+  });
+
+  let started = false;
+
+  /**
+   * 启动后台任务：继续未完成的广播任务，开始定时推送和过期清理
+   */
+  function start(): void {
+    if (started) {
+      return;
+    }
+    started = true;
+    broadcastRunner.start();
+    pushScheduler.start();
+    pushExpirySweeper.start();
+  }
+
+  /**
+   * 停止后台任务（广播任务在当前批次完成后暂停，下次启动时继续）
+   */
+  function stop(): void {
+    started = false;
+    broadcastRunner.stop();
+    pushScheduler.stop();
+    pushExpirySweeper.stop();
+  }
+
+  /**
+   * 关闭实时订阅，停止后台任务，断开所有用户会话并停止令牌刷新
+   */
+  async function shutdown(): Promise<void> {
+    [...sseConnections].forEach(close => close());
+    stop();
+    feedWatcher.stopAll();
+    await sessionPool.releaseAll();
+    tokenManager.clearToken();
+  }
+
+  return Object.assign(app, { start, stop, shutdown });
+}
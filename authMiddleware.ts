@@ -0,0 +1,170 @@
+import express from 'express';
+import { StreamClient } from '@stream-io/node-sdk';
+import { StreamTokenProvider } from './tokenProvider';
+
+export interface AuthenticatedUser {
+  userId: string;
+  exp?: number;
+  /** 令牌签发时间（秒） */
+  iat?: number;
+}
+
+export interface AuthMiddlewareOptions {
+  /** 令牌签发后是否已被吊销（如修改密码、删除用户），吊销的令牌即使没有过期也会被拒绝 */
+  isTokenRevoked?: (user: AuthenticatedUser) => boolean;
+}
+
+/**
+ * 从请求中取出已认证的用户（由 requireAuth 写入 res.locals）
+ */
+export function getAuthUser(res: express.Response): AuthenticatedUser {
+  return res.locals.authUser as AuthenticatedUser;
+}
+
+function isEventStreamRequest(req: express.Request): boolean {
+  return (req.headers.accept || '').split(',').some(type => type.trim().startsWith('text/event-stream'));
+}
+
+/**
+ * 解析 Authorization 头中的 Bearer 令牌
+ *
+ * 浏览器的 EventSource 不能设置请求头，所以 SSE 请求（Accept: text/event-stream）
+ * 也可以通过查询参数 access_token 提供令牌
+ */
+function extractBearerToken(req: express.Request): string | null {
+  const header = req.headers.authorization;
+  if (!header) {
+    const queryToken = req.query?.access_token;
+    if (req.method === 'GET' && isEventStreamRequest(req) && typeof queryToken === 'string') {
+      return queryToken.trim() || null;
+    }
+    return null;
+  }
+
+  const [scheme, token] = header.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return null;
+  }
+  return token.trim();
+}
+
+function sendUnauthorized(res: express.Response, error: string, message: string) {
+  res.setHeader('WWW-Authenticate', 'Bearer realm="api"');
+  return res.status(401).json({
+    success: false,
+    error,
+    message
+  });
+}
+
+function sendForbidden(res: express.Response, message: string) {
+  return res.status(403).json({
+    success: false,
+    error: '无权操作其他用户',
+    message
+  });
+}
+
+/**
+ * 创建认证中间件：要求请求携带有效的 Bearer 令牌，
+ * 并校验请求体中的 userId 与令牌用户一致
+ * @param tokenProvider 令牌提供者，用于验证令牌
+ * @param options 认证选项
+ */
+export function createAuthMiddleware(
+  tokenProvider: StreamTokenProvider,
+  options: AuthMiddlewareOptions = {}
+): express.RequestHandler {
+  return (req, res, next) => {
+    const token = extractBearerToken(req);
+    if (!token) {
+      return sendUnauthorized(res, '缺少认证令牌', '请在 Authorization 头中提供 Bearer 令牌');
+    }
+
+    if (!tokenProvider.validateToken(token)) {
+      return sendUnauthorized(res, '认证令牌无效', '令牌无效或已过期，请重新获取令牌');
+    }
+
+    const user = tokenProvider.getUserFromToken(token);
+    if (!user || !user.userId) {
+      return sendUnauthorized(res, '认证令牌无效', '令牌中缺少用户信息');
+    }
+
+    if (options.isTokenRevoked?.(user)) {
+      return sendUnauthorized(res, '认证令牌已失效', '密码已修改或用户已删除，请重新登录');
+    }
+
+    const bodyUserId = req.body?.userId;
+    if (bodyUserId !== undefined && bodyUserId !== user.userId) {
+      return sendForbidden(res, `令牌用户 ${user.userId} 不能以用户 ${bodyUserId} 的身份操作`);
+    }
+
+    res.locals.authUser = user;
+    next();
+  };
+}
+
+/**
+ * 路径参数 :userId 校验器，配合 app.param('userId', ...) 使用，
+ * 确保路径中的用户与令牌用户一致
+ */
+export const requireMatchingUserParam: express.RequestParamHandler = (req, res, next, userId) => {
+  const authUser = res.locals.authUser as AuthenticatedUser | undefined;
+  if (!authUser) {
+    return sendUnauthorized(res, '缺少认证令牌', '请在 Authorization 头中提供 Bearer 令牌');
+  }
+
+  if (authUser.userId !== userId) {
+    return sendForbidden(res, `令牌用户 ${authUser.userId} 不能以用户 ${userId} 的身份操作`);
+  }
+
+  next();
+};
+
+/**
+ * 查询用户在 Stream 中的角色是否为 admin
+ * @param streamClient 服务端 Stream 客户端
+ * @param userId 用户ID
+ */
+export async function isAdminUser(streamClient: StreamClient, userId: string): Promise<boolean> {
+  const response = await streamClient.queryUsers({
+    payload: {
+      filter_conditions: { id: { $eq: userId } },
+      limit: 1
+    }
+  });
+  return response.users?.[0]?.role === 'admin';
+}
+
+/**
+ * 创建管理员校验中间件：要求令牌用户在 Stream 中的角色为 admin，
+ * 需放在 createAuthMiddleware 之后使用
+ * @param streamClient 服务端 Stream 客户端，用于查询用户角色
+ */
+export function createAdminMiddleware(streamClient: StreamClient): express.RequestHandler {
+  return async (req, res, next) => {
+    const authUser = res.locals.authUser as AuthenticatedUser | undefined;
+    if (!authUser) {
+      return sendUnauthorized(res, '缺少认证令牌', '请在 Authorization 头中提供 Bearer 令牌');
+    }
+
+    try {
+      if (!(await isAdminUser(streamClient, authUser.userId))) {
+        return res.status(403).json({
+          success: false,
+          error: '需要管理员权限',
+          message: `用户 ${authUser.userId} 不是管理员`
+        });
+      }
+
+      next();
+    } catch (error) {
+      console.error('检查管理员权限失败:', error);
+      res.status(500).json({
+        success: false,
+        error: '检查管理员权限失败',
+        message: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  };
+}
@@ -0,0 +1,310 @@
+import crypto from 'crypto';
+import { StreamClient } from '@stream-io/node-sdk';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+import { buildPushActivity, PushCategoryRegistry, PushContent } from './globalPush';
+
+export type BroadcastStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface BroadcastJob {
+  id: string;
+  push: PushContent;
+  /** 发起广播的用户，推送活动以该用户身份发布 */
+  createdBy: string;
+  status: BroadcastStatus;
+  /** 开始时统计的用户总数 */
+  totalUsers: number | null;
+  delivered: number;
+  failed: number;
+  /** 投递失败的用户（最多保留 MAX_FAILED_USER_IDS 个） */
+  failedUserIds: string[];
+  /** 已处理的最后一个用户ID，按用户ID顺序分页，崩溃后从这里继续 */
+  cursor: string | null;
+  /** 创建的推送活动ID（每批一个活动，发布到该批所有用户的 foryou feed） */
+  activityIds: string[];
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export interface BroadcastProgress {
+  id: string;
+  status: BroadcastStatus;
+  totalUsers: number | null;
+  delivered: number;
+  failed: number;
+  remaining: number | null;
+  failedUserIds: string[];
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export interface BroadcastRunnerOptions {
+  /** 每次查询的用户数 */
+  pageSize?: number;
+  /** 每个推送活动同时发布到多少个 foryou feed */
+  batchSize?: number;
+}
+
+const MAX_FAILED_USER_IDS = 1000;
+
+/**
+ * 广播任务存储，配置文件路径时持久化到 JSON 文件
+ */
+export class BroadcastStore {
+  private jobs: Record<string, BroadcastJob>;
+  private filePath?: string;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+    this.jobs = filePath ? readJsonFile<Record<string, BroadcastJob>>(filePath, {}) : {};
+  }
+
+  get(id: string): BroadcastJob | null {
+    return this.jobs[id] || null;
+  }
+
+  list(): BroadcastJob[] {
+    return Object.values(this.jobs).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  save(job: BroadcastJob): void {
+    job.updatedAt = new Date().toISOString();
+    this.jobs[job.id] = job;
+    if (this.filePath) {
+      writeJsonFile(this.filePath, this.jobs);
+    }
+  }
+}
+
+/**
+ * 全局广播任务
+ *
+ * 按用户ID顺序分页遍历所有用户，把推送分批发布到每个用户的 foryou feed。
+ * 每批完成后保存进度，进程崩溃重启后从最后保存的用户继续；
+ * 崩溃时正在发布的那一批可能会被重复投递。
+ */
+export class BroadcastRunner {
+  private streamClient: StreamClient;
+  private store: BroadcastStore;
+  private categories: PushCategoryRegistry;
+  private pageSize: number;
+  private batchSize: number;
+  private running = new Map<string, Promise<BroadcastJob>>();
+  private stopped = false;
+
+  constructor(
+    streamClient: StreamClient,
+    store: BroadcastStore,
+    categories: PushCategoryRegistry,
+    options: BroadcastRunnerOptions = {}
+  ) {
+    this.streamClient = streamClient;
+    this.store = store;
+    this.categories = categories;
+    this.pageSize = options.pageSize ?? 100;
+    this.batchSize = options.batchSize ?? 25;
+  }
+
+  /**
+   * 创建广播任务（不会立即开始）
+   * @throws 推送的优先级或分类不合法时抛出错误
+   */
+  create(push: PushContent, createdBy: string): BroadcastJob {
+    // 提前校验，避免任务开始后才失败
+    buildPushActivity(push, this.categories);
+
+    const now = new Date().toISOString();
+    const job: BroadcastJob = {
+      id: crypto.randomUUID(),
+      push,
+      createdBy,
+      status: 'pending',
+      totalUsers: null,
+      delivered: 0,
+      failed: 0,
+      failedUserIds: [],
+      cursor: null,
+      activityIds: [],
+      lastError: null,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null
+    };
+    this.store.save(job);
+    return job;
+  }
+
+  /**
+   * 运行广播任务直到完成（同一任务不会重复运行）
+   */
+  run(id: string): Promise<BroadcastJob> {
+    let pending = this.running.get(id);
+    if (!pending) {
+      pending = this.execute(id).finally(() => {
+        this.running.delete(id);
+      });
+      this.running.set(id, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * 在后台运行广播任务，错误只记录日志
+   */
+  runInBackground(id: string): void {
+    this.run(id).catch(error => {
+      console.error(`❌ 广播任务 ${id} 失败:`, error);
+    });
+  }
+
+  /**
+   * 允许任务运行（撤销之前的 stop），并继续所有未完成的任务（服务启动时调用）
+   */
+  start(): void {
+    this.stopped = false;
+    this.resumeIncomplete();
+  }
+
+  /**
+   * 继续所有未完成的任务
+   */
+  resumeIncomplete(): void {
+    for (const job of this.store.list()) {
+      if (job.status === 'pending' || job.status === 'running') {
+        console.log(`🔁 继续广播任务 ${job.id} (已投递 ${job.delivered})`);
+        this.runInBackground(job.id);
+      }
+    }
+  }
+
+  /**
+   * 在当前批次完成后停止所有任务，任务保持 running 状态，调用 start 后继续
+   */
+  stop(): void {
+    this.stopped = true;
+  }
+
+  get(id: string): BroadcastJob | null {
+    return this.store.get(id);
+  }
+
+  /**
+   * 任务进度（remaining 在统计出用户总数之前为 null）
+   */
+  getProgress(job: BroadcastJob): BroadcastProgress {
+    return {
+      id: job.id,
+      status: job.status,
+      totalUsers: job.totalUsers,
+      delivered: job.delivered,
+      failed: job.failed,
+      remaining: job.totalUsers === null
+        ? null
+        : job.status === 'completed' ? 0 : Math.max(0, job.totalUsers - job.delivered - job.failed),
+      failedUserIds: job.failedUserIds,
+      lastError: job.lastError,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      completedAt: job.completedAt
+    };
+  }
+
+  private async execute(id: string): Promise<BroadcastJob> {
+    const job = this.store.get(id);
+    if (!job) {
+      throw new Error(`广播任务不存在: ${id}`);
+    }
+    if (job.status === 'completed') {
+      return job;
+    }
+
+    job.status = 'running';
+    job.lastError = null;
+    this.store.save(job);
+
+    try {
+      if (job.totalUsers === null) {
+        job.totalUsers = await this.countUsers();
+        this.store.save(job);
+        console.log(`📣 广播任务 ${job.id} 开始，共 ${job.totalUsers} 个用户`);
+      }
+
+      const activity = buildPushActivity(job.push, this.categories);
+
+      while (!this.stopped) {
+        const userIds = await this.queryUserIds(job.cursor);
+        if (userIds.length === 0) {
+          break;
+        }
+
+        for (let i = 0; i < userIds.length && !this.stopped; i += this.batchSize) {
+          const batch = userIds.slice(i, i + this.batchSize);
+          try {
+            const response = await this.streamClient.feeds.addActivity({
+              ...activity,
+              feeds: batch.map(userId => `foryou:${userId}`),
+              user_id: job.createdBy
+            });
+            job.delivered += batch.length;
+            job.activityIds.push(response.activity.id);
+          } catch (error) {
+            console.warn(`⚠️ 广播任务 ${job.id} 的一批投递失败:`, error);
+            job.failed += batch.length;
+            job.failedUserIds.push(...batch.slice(0, MAX_FAILED_USER_IDS - job.failedUserIds.length));
+            job.lastError = error instanceof Error ? error.message : String(error);
+          }
+
+          // 每批完成后保存进度
+          job.cursor = batch[batch.length - 1];
+          this.store.save(job);
+        }
+      }
+
+      if (this.stopped) {
+        console.log(`⏸️ 广播任务 ${job.id} 已暂停，将在下次启动时继续`);
+        return job;
+      }
+
+      job.status = 'completed';
+      job.completedAt = new Date().toISOString();
+      this.store.save(job);
+      console.log(`✅ 广播任务 ${job.id} 完成: 投递 ${job.delivered}，失败 ${job.failed}`);
+      return job;
+    } catch (error) {
+      job.status = 'failed';
+      job.lastError = error instanceof Error ? error.message : String(error);
+      this.store.save(job);
+      throw error;
+    }
+  }
+
+  /**
+   * 按用户ID顺序查询 cursor 之后的一页用户
+   */
+  private async queryUserIds(cursor: string | null): Promise<string[]> {
+    const response = await this.streamClient.queryUsers({
+      payload: {
+        filter_conditions: cursor ? { id: { $gt: cursor } } : {},
+        sort: [{ field: 'id', direction: 1 }],
+        limit: this.pageSize
+      }
+    });
+    return (response.users || []).map(user => user.id);
+  }
+
+  private async countUsers(): Promise<number> {
+    let count = 0;
+    let cursor: string | null = null;
+    while (true) {
+      const userIds = await this.queryUserIds(cursor);
+      if (userIds.length === 0) {
+        return count;
+      }
+      count += userIds.length;
+      cursor = userIds[userIds.length - 1];
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const KEY_LENGTH = 64;
+
+interface CredentialRecord {
+  /** scrypt 盐（base64） */
+  salt: string;
+  /** scrypt 哈希（base64） */
+  hash: string;
+  updatedAt: string;
+  /** 此时间之前签发的访问令牌无效（设置密码时更新，旧数据没有时使用 updatedAt） */
+  tokensValidAfter?: string;
+}
+
+/**
+ * 检查密码是否符合要求
+ * @returns 错误信息，符合要求时返回 null
+ */
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `密码至少需要 ${MIN_PASSWORD_LENGTH} 个字符`;
+  }
+  return null;
+}
+
+/**
+ * 用户密码存储
+ *
+ * 只保存 scrypt 哈希，签发访问令牌前用它验证用户身份。
+ * 配置了文件时每次读取都从文件加载，`npm run set-password` 修改的密码无需重启服务即可生效。
+ */
+export class CredentialStore {
+  private filePath?: string;
+  private records: Record<string, CredentialRecord> = {};
+
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * 设置用户密码
+   * @throws 密码不符合要求时抛出错误
+   */
+  setPassword(userId: string, password: string): void {
+    const invalid = validatePassword(password);
+    if (invalid) {
+      throw new Error(invalid);
+    }
+
+    const salt = crypto.randomBytes(16);
+    const records = this.load();
+    const now = new Date().toISOString();
+    records[userId] = {
+      salt: salt.toString('base64'),
+      hash: crypto.scryptSync(password, salt, KEY_LENGTH).toString('base64'),
+      updatedAt: now,
+      tokensValidAfter: now
+    };
+    this.save(records);
+  }
+
+  /**
+   * 验证用户密码（没有设置密码的用户总是验证失败）
+   */
+  verify(userId: string, password: string): boolean {
+    const record = this.load()[userId];
+    if (!record || typeof password !== 'string') {
+      return false;
+    }
+
+    const expected = Buffer.from(record.hash, 'base64');
+    const actual = crypto.scryptSync(password, Buffer.from(record.salt, 'base64'), expected.length);
+    return crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * 访问令牌是否仍然有效：签发后用户没有修改密码，也没有被删除（没有密码的用户的令牌总是无效）
+   * 令牌的签发时间精确到秒，修改密码的同一秒内签发的旧令牌仍然有效
+   * @param issuedAt 令牌签发时间（JWT iat，秒）
+   */
+  acceptsToken(userId: string, issuedAt: number | undefined): boolean {
+    const record = this.load()[userId];
+    if (!record || issuedAt === undefined) {
+      return false;
+    }
+    const validAfter = new Date(record.tokensValidAfter || record.updatedAt).getTime();
+    return issuedAt >= Math.floor(validAfter / 1000);
+  }
+
+  has(userId: string): boolean {
+    return !!this.load()[userId];
+  }
+
+  /**
+   * 删除用户密码
+   * @returns 是否删除了一个存在的密码
+   */
+  remove(userId: string): boolean {
+    const records = this.load();
+    if (!records[userId]) {
+      return false;
+    }
+    delete records[userId];
+    this.save(records);
+    return true;
+  }
+
+  private load(): Record<string, CredentialRecord> {
+    if (this.filePath) {
+      this.records = readJsonFile<Record<string, CredentialRecord>>(this.filePath, {});
+    }
+    return this.records;
+  }
+
+  private save(records: Record<string, CredentialRecord>): void {
+    this.records = records;
+    if (this.filePath) {
+      writeJsonFile(this.filePath, records);
+    }
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * 五段式 cron 表达式：分 时 日 月 周（按服务器本地时间）
+ *
+ * 每一段支持 *、数字、范围（1-5）、列表（1,3,5）和步长（星号/15、9-17/2），
+ * 周的 0 和 7 都表示星期日。日和周都不是 * 时，满足其中之一即可（与标准 cron 一致）。
+ */
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // 分
+  [0, 23], // 时
+  [1, 31], // 日
+  [1, 12], // 月
+  [0, 7]   // 周
+];
+
+// 最多向后查找的时间，超过则认为表达式不会再触发（如 2 月 30 日）
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseField(text: string, min: number, max: number): CronField {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [rangeText, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`无效的步长: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangeText === '*') {
+      start = min;
+      end = max;
+    } else if (rangeText.includes('-')) {
+      [start, end] = rangeText.split('-').map(Number);
+    } else {
+      start = Number(rangeText);
+      end = stepText === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`无效的取值: ${part}（范围 ${min}-${max}）`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard: text === '*' };
+}
+
+export class CronSchedule {
+  readonly expression: string;
+  private minutes: CronField;
+  private hours: CronField;
+  private days: CronField;
+  private months: CronField;
+  private weekdays: CronField;
+
+  /**
+   * @throws 表达式格式不正确时抛出错误
+   */
+  constructor(expression: string) {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5) {
+      throw new Error(`cron 表达式需要 5 段（分 时 日 月 周）: ${expression}`);
+    }
+
+    this.expression = parts.join(' ');
+    [this.minutes, this.hours, this.days, this.months, this.weekdays] =
+      parts.map((part, index) => parseField(part, ...FIELD_RANGES[index]));
+
+    // 周日可以写成 0 或 7
+    if (this.weekdays.values.has(7)) {
+      this.weekdays.values.add(0);
+    }
+  }
+
+  /**
+   * 计算 after 之后（不含）的下一次触发时间
+   * @returns 找不到时返回 null
+   */
+  next(after: Date): Date | null {
+    const date = new Date(after.getTime());
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+    const limit = after.getTime() + MAX_SEARCH_MS;
+
+    while (date.getTime() <= limit) {
+      if (!this.months.values.has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1);
+        date.setHours(0, 0);
+        continue;
+      }
+      if (!this.matchesDay(date)) {
+        date.setDate(date.getDate() + 1);
+        date.setHours(0, 0);
+        continue;
+      }
+      if (!this.hours.values.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0);
+        continue;
+      }
+      if (!this.minutes.values.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1);
+        continue;
+      }
+      return date;
+    }
+    return null;
+  }
+
+  private matchesDay(date: Date): boolean {
+    const dayMatches = this.days.values.has(date.getDate());
+    const weekdayMatches = this.weekdays.values.has(date.getDay());
+    if (this.days.wildcard || this.weekdays.wildcard) {
+      return dayMatches && weekdayMatches;
+    }
+    return dayMatches || weekdayMatches;
+  }
+}
+
+/**
+ * 校验 cron 表达式
+ * @returns 错误信息，合法时返回 null
+ */
+export function validateCronExpression(expression: string): string | null {
+  try {
+    new CronSchedule(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
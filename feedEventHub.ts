@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+
+export interface FeedEvent {
+  /** 事件ID，格式为 <epoch>:<seq>，用于断线后续传 */
+  id: string;
+  /** feed ID，如 user:alice */
+  fid: string;
+  /** 事件类型，如 activity.added */
+  type: string;
+  data: unknown;
+  createdAt: Date;
+}
+
+export type FeedEventListener = (event: FeedEvent) => void;
+
+export interface ReplayResult {
+  events: FeedEvent[];
+  /** 缓冲区已经不包含 lastEventId 之后的全部事件，客户端需要重新加载 feed */
+  resyncRequired: boolean;
+}
+
+/**
+ * Feed 事件中心
+ *
+ * 按 feed 缓存最近的事件（环形缓冲区）并分发给订阅者。
+ * 事件ID带有进程启动时生成的 epoch，服务重启后旧的事件ID会被识别为需要重新加载。
+ */
+export class FeedEventHub {
+  private bufferSize: number;
+  private epoch = crypto.randomBytes(4).toString('hex');
+  private seq = 0;
+  private buffers = new Map<string, FeedEvent[]>();
+  // 每个 feed 被挤出缓冲区的最新事件序号
+  private droppedSeq = new Map<string, number>();
+  private listeners = new Map<string, Set<FeedEventListener>>();
+
+  /**
+   * @param bufferSize 每个 feed 保留的最近事件数量
+   */
+  constructor(bufferSize: number = 200) {
+    this.bufferSize = bufferSize;
+  }
+
+  /**
+   * 发布事件
+   * @param fid feed ID
+   * @param type 事件类型
+   * @param data 事件数据
+   */
+  publish(fid: string, type: string, data: unknown): FeedEvent {
+    const event: FeedEvent = {
+      id: `${this.epoch}:${++this.seq}`,
+      fid,
+      type,
+      data,
+      createdAt: new Date()
+    };
+
+    let buffer = this.buffers.get(fid);
+    if (!buffer) {
+      buffer = [];
+      this.buffers.set(fid, buffer);
+    }
+    buffer.push(event);
+    if (buffer.length > this.bufferSize) {
+      this.droppedSeq.set(fid, this.seqOf(buffer.shift()!));
+    }
+
+    for (const listener of this.listeners.get(fid) || []) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.warn('分发 feed 事件时出现警告:', error);
+      }
+    }
+    return event;
+  }
+
+  /**
+   * 订阅指定 feed 的事件
+   * @returns 取消订阅函数
+   */
+  subscribe(fid: string, listener: FeedEventListener): () => void {
+    let set = this.listeners.get(fid);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(fid, set);
+    }
+    set.add(listener);
+
+    return () => {
+      set!.delete(listener);
+      if (set!.size === 0 && this.listeners.get(fid) === set) {
+        this.listeners.delete(fid);
+      }
+    };
+  }
+
+  /**
+   * 获取 lastEventId 之后的事件，用于断线重连后续传
+   * @param fid feed ID
+   * @param lastEventId 客户端最后收到的事件ID
+   */
+  replay(fid: string, lastEventId: string): ReplayResult {
+    const [epoch, seqText] = lastEventId.split(':');
+    const lastSeq = parseInt(seqText, 10);
+    if (epoch !== this.epoch || isNaN(lastSeq) || lastSeq > this.seq) {
+      return { events: [], resyncRequired: true };
+    }
+
+    // lastEventId 之后有事件已被挤出缓冲区，无法完整续传
+    if ((this.droppedSeq.get(fid) ?? 0) > lastSeq) {
+      return { events: [], resyncRequired: true };
+    }
+
+    const buffer = this.buffers.get(fid) || [];
+    return { events: buffer.filter(event => this.seqOf(event) > lastSeq), resyncRequired: false };
+  }
+
+  /**
+   * 最新的事件ID，新连接可以从这里开始续传
+   */
+  get lastEventId(): string {
+    return `${this.epoch}:${this.seq}`;
+  }
+
+  /**
+   * 指定 feed 当前的订阅者数量
+   */
+  listenerCount(fid: string): number {
+    return this.listeners.get(fid)?.size || 0;
+  }
+
+  private seqOf(event: FeedEvent): number {
+    return parseInt(event.id.split(':')[1], 10);
+  }
+}
@@ -0,0 +1,174 @@
+import { FeedsClient } from '@stream-io/feeds-client';
+import { FeedEventHub } from './feedEventHub';
+
+/**
+ * 转发给浏览器的 Stream 事件类型
+ */
+export const RELAYED_EVENT_TYPES = new Set([
+  'feeds.activity.added',
+  'feeds.activity.updated',
+  'feeds.activity.deleted',
+  'feeds.activity.reaction.added',
+  'feeds.activity.reaction.deleted',
+  'feeds.comment.added',
+  'feeds.comment.updated',
+  'feeds.comment.deleted'
+]);
+
+interface WatchEntry {
+  group: string;
+  userId: string;
+  fid: string;
+  refs: number;
+  client?: FeedsClient;
+  unsubscribe?: () => void;
+  // 正在进行的监听，避免并发请求重复订阅
+  attaching?: Promise<void>;
+  // 没有订阅者后延迟停止监听的定时器
+  lingerTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Feed 监听器
+ *
+ * 通过用户会话中的 FeedsClient 监听（watch）feed，把收到的实时事件发布到 FeedEventHub。
+ * 同一个 feed 只监听一次，最后一个订阅者离开后再保留一段时间，
+ * 让短暂断线重连的客户端仍然能够续传这段时间内的事件。
+ */
+export class FeedWatcher {
+  private hub: FeedEventHub;
+  private acquireClient: (userId: string) => Promise<FeedsClient>;
+  private lingerMs: number;
+  private entries = new Map<string, WatchEntry>();
+
+  /**
+   * @param hub 事件中心
+   * @param acquireClient 获取已连接指定用户的客户端（通常为 UserSessionPool.acquire）
+   * @param lingerMs 最后一个订阅者离开后继续监听的时间（毫秒）
+   */
+  constructor(hub: FeedEventHub, acquireClient: (userId: string) => Promise<FeedsClient>, lingerMs: number = 60000) {
+    this.hub = hub;
+    this.acquireClient = acquireClient;
+    this.lingerMs = lingerMs;
+  }
+
+  /**
+   * 开始监听 feed
+   * @param group feed 组，如 user、foryou
+   * @param userId feed 所属用户
+   * @returns 停止监听函数
+   */
+  async watch(group: string, userId: string): Promise<() => void> {
+    const fid = `${group}:${userId}`;
+    let entry = this.entries.get(fid);
+    if (!entry) {
+      entry = { group, userId, fid, refs: 0 };
+      this.entries.set(fid, entry);
+    }
+    entry.refs++;
+    if (entry.lingerTimer) {
+      clearTimeout(entry.lingerTimer);
+      entry.lingerTimer = undefined;
+    }
+
+    try {
+      await this.attach(entry);
+    } catch (error) {
+      this.unwatch(entry);
+      throw error;
+    }
+
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.unwatch(entry!);
+      }
+    };
+  }
+
+  /**
+   * 确认监听仍然有效：用户会话被淘汰或重建后，在新客户端上重新监听
+   * @param fid 只检查指定的 feed，不传则检查全部
+   */
+  async refresh(fid?: string): Promise<void> {
+    const entries = fid ? [this.entries.get(fid)].filter((entry): entry is WatchEntry => !!entry) : [...this.entries.values()];
+    await Promise.all(entries.map(entry =>
+      this.attach(entry).catch(error => {
+        console.warn(`重新监听 ${entry.fid} 失败:`, error);
+      })
+    ));
+  }
+
+  /**
+   * 停止所有监听
+   */
+  stopAll(): void {
+    for (const entry of this.entries.values()) {
+      if (entry.lingerTimer) {
+        clearTimeout(entry.lingerTimer);
+      }
+      entry.unsubscribe?.();
+    }
+    this.entries.clear();
+  }
+
+  private attach(entry: WatchEntry): Promise<void> {
+    if (!entry.attaching) {
+      entry.attaching = this.doAttach(entry).finally(() => {
+        entry.attaching = undefined;
+      });
+    }
+    return entry.attaching;
+  }
+
+  private async doAttach(entry: WatchEntry): Promise<void> {
+    const client = await this.acquireClient(entry.userId);
+    if (entry.client === client) {
+      return;
+    }
+
+    entry.unsubscribe?.();
+    entry.unsubscribe = undefined;
+    await client.feed(entry.group, entry.userId).getOrCreate({ watch: true, limit: 1 });
+
+    // 等待期间可能已经停止监听
+    if (this.entries.get(entry.fid) !== entry) {
+      return;
+    }
+
+    entry.client = client;
+    entry.unsubscribe = client.on('all', (event: any) => {
+      if (!RELAYED_EVENT_TYPES.has(event.type) || event.fid !== entry.fid) {
+        return;
+      }
+      this.hub.publish(entry.fid, event.type.replace(/^feeds\./, ''), {
+        fid: event.fid,
+        activity: event.activity,
+        reaction: event.reaction,
+        comment: event.comment,
+        user: event.user,
+        created_at: event.created_at
+      });
+    });
+    console.log(`👀 开始监听 ${entry.fid}`);
+  }
+
+  private unwatch(entry: WatchEntry): void {
+    entry.refs--;
+    if (entry.refs > 0 || this.entries.get(entry.fid) !== entry) {
+      return;
+    }
+
+    entry.lingerTimer = setTimeout(() => {
+      if (entry.refs > 0 || this.entries.get(entry.fid) !== entry) {
+        return;
+      }
+      entry.unsubscribe?.();
+      this.entries.delete(entry.fid);
+      console.log(`🙈 停止监听 ${entry.fid}`);
+    }, this.lingerMs);
+    // 延迟停止的定时器不应阻止进程退出
+    entry.lingerTimer.unref();
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * 用户之间的关注关系
+ *
+ * 关注一个用户时，关注者的多个 feed 组都要关注对方：user feed 的关注用于关注列表、粉丝数和通知，
+ * foryou feed 的关注让对方的帖子出现在推荐中。这里按 feed 组声明这些关注，关注和取消关注时全部应用，
+ * 其中一步失败时撤销已经完成的步骤，避免只关注了一半。
+ */
+
+export interface FollowRelationship {
+  /** 关注者的 feed 组 */
+  sourceGroup: string;
+  /** 被关注者的 feed 组 */
+  targetGroup: string;
+  /** 是否通知被关注的用户（创建通知活动时不再单独发送推送），只应有一个关系通知，避免重复 */
+  notify: boolean;
+}
+
+/**
+ * 关注一个用户时建立的所有关注，第一个是主关系：关注列表和粉丝数以它为准，对账时按它修复其他关系
+ */
+export const FOLLOW_RELATIONSHIPS: FollowRelationship[] = [
+  { sourceGroup: 'user', targetGroup: 'user', notify: true },
+  { sourceGroup: 'foryou', targetGroup: 'user', notify: false }
+];
+
+/**
+ * 关注相关的 Stream API，用户端客户端（FeedsClient）和服务端（StreamClient.feeds）都满足
+ */
+export interface FollowApi {
+  follow(request: { source: string; target: string; create_notification_activity?: boolean; skip_push?: boolean }): Promise<unknown>;
+  unfollow(request: { source: string; target: string }): Promise<unknown>;
+  queryFollows(request: { filter?: Record<string, any>; limit?: number; next?: string }): Promise<{
+    follows: Array<{ source_feed: { feed: string }; target_feed: { feed: string } }>;
+    next?: string;
+  }>;
+}
+
+/**
+ * 一条关注（source feed 关注 target feed）
+ */
+export interface FollowLink {
+  source: string;
+  target: string;
+}
+
+/**
+ * 对账发现的不一致：主关系存在而其他关系缺失时补上（follow），主关系不存在时删除多余的关注（unfollow）
+ */
+export interface FollowMismatch extends FollowLink {
+  action: 'follow' | 'unfollow';
+}
+
+export interface ReconcileResult {
+  userId: string;
+  mismatches: FollowMismatch[];
+  /** 修复失败的不一致 */
+  failed: Array<FollowMismatch & { error: string }>;
+}
+
+function followLink(relationship: FollowRelationship, userId: string, targetUserId: string): FollowLink {
+  return {
+    source: `${relationship.sourceGroup}:${userId}`,
+    target: `${relationship.targetGroup}:${targetUserId}`
+  };
+}
+
+function linkKey(link: FollowLink): string {
+  return `${link.source}->${link.target}`;
+}
+
+/**
+ * 查询 userId 对 targetUserId 已经存在的关注
+ * @returns 已存在关注的 key（source->target）
+ */
+async function findExistingLinks(
+  api: FollowApi,
+  userId: string,
+  targetUserId: string,
+  relationships: FollowRelationship[]
+): Promise<Set<string>> {
+  const links = relationships.map(relationship => followLink(relationship, userId, targetUserId));
+  const result = await api.queryFollows({
+    filter: {
+      source_feed: { $in: [...new Set(links.map(link => link.source))] },
+      target_feed: { $in: [...new Set(links.map(link => link.target))] }
+    },
+    limit: links.length * links.length
+  });
+  return new Set(result.follows.map(follow => linkKey({ source: follow.source_feed.feed, target: follow.target_feed.feed })));
+}
+
+/**
+ * 按顺序执行步骤，失败时按相反顺序撤销已完成的步骤，然后抛出原来的错误
+ * 撤销失败只记录日志，留给对账命令修复
+ */
+async function applyWithRollback<T>(
+  steps: T[],
+  apply: (step: T) => Promise<unknown>,
+  revert: (step: T) => Promise<unknown>
+): Promise<void> {
+  const applied: T[] = [];
+  try {
+    for (const step of steps) {
+      await apply(step);
+      applied.push(step);
+    }
+  } catch (error) {
+    for (const step of applied.reverse()) {
+      try {
+        await revert(step);
+      } catch (revertError) {
+        console.error('⚠️ 撤销关注操作失败:', step, revertError);
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * 关注用户：建立所有尚不存在的关注，任何一步失败时撤销本次建立的关注
+ * 发送通知的关系最后建立，前面的步骤失败时不会留下已经发出的“关注了你”通知
+ * @returns 本次建立的关注
+ */
+export async function followUser(
+  api: FollowApi,
+  userId: string,
+  targetUserId: string,
+  relationships: FollowRelationship[] = FOLLOW_RELATIONSHIPS
+): Promise<FollowLink[]> {
+  const existing = await findExistingLinks(api, userId, targetUserId, relationships);
+  const missing = relationships
+    .filter(relationship => !existing.has(linkKey(followLink(relationship, userId, targetUserId))))
+    .sort((a, b) => Number(a.notify) - Number(b.notify));
+
+  await applyWithRollback(
+    missing,
+    relationship => api.follow({
+      ...followLink(relationship, userId, targetUserId),
+      create_notification_activity: relationship.notify,
+      skip_push: relationship.notify
+    }),
+    relationship => api.unfollow(followLink(relationship, userId, targetUserId))
+  );
+
+  return missing.map(relationship => followLink(relationship, userId, targetUserId));
+}
+
+/**
+ * 取消关注用户：删除所有存在的关注，任何一步失败时恢复本次删除的关注
+ * @returns 本次删除的关注
+ */
+export async function unfollowUser(
+  api: FollowApi,
+  userId: string,
+  targetUserId: string,
+  relationships: FollowRelationship[] = FOLLOW_RELATIONSHIPS
+): Promise<FollowLink[]> {
+  const existing = await findExistingLinks(api, userId, targetUserId, relationships);
+  const links = relationships
+    .map(relationship => followLink(relationship, userId, targetUserId))
+    .filter(link => existing.has(linkKey(link)));
+
+  await applyWithRollback(
+    links,
+    link => api.unfollow(link),
+    link => api.follow({ ...link, create_notification_activity: false, skip_push: true })
+  );
+
+  return links;
+}
+
+/**
+ * 查询 feed 关注的某个 feed 组中的所有 feed（分页读取全部）
+ * @returns 被关注 feed 的ID（不含组名）
+ */
+async function queryFollowedFeedIds(api: FollowApi, source: string, targetGroup: string): Promise<Set<string>> {
+  const ids = new Set<string>();
+  let next: string | undefined;
+  do {
+    const result = await api.queryFollows({ filter: { source_feed: source }, limit: 100, ...(next ? { next } : {}) });
+    for (const follow of result.follows) {
+      const [group, id] = follow.target_feed.feed.split(':');
+      if (group === targetGroup) {
+        ids.add(id);
+      }
+    }
+    next = result.next;
+  } while (next);
+  return ids;
+}
+
+/**
+ * 检查用户的关注是否一致（以主关系为准），dryRun 为 false 时修复不一致
+ */
+export async function reconcileUserFollows(
+  api: FollowApi,
+  userId: string,
+  options: { dryRun?: boolean } = {},
+  relationships: FollowRelationship[] = FOLLOW_RELATIONSHIPS
+): Promise<ReconcileResult> {
+  const [primary, ...others] = relationships;
+  const followedUserIds = await queryFollowedFeedIds(api, `${primary.sourceGroup}:${userId}`, primary.targetGroup);
+
+  const mismatches: FollowMismatch[] = [];
+  for (const relationship of others) {
+    const actual = await queryFollowedFeedIds(api, `${relationship.sourceGroup}:${userId}`, relationship.targetGroup);
+    for (const targetUserId of followedUserIds) {
+      if (!actual.has(targetUserId)) {
+        mismatches.push({ ...followLink(relationship, userId, targetUserId), action: 'follow' });
+      }
+    }
+    for (const targetUserId of actual) {
+      if (!followedUserIds.has(targetUserId)) {
+        mismatches.push({ ...followLink(relationship, userId, targetUserId), action: 'unfollow' });
+      }
+    }
+  }
+
+  const failed: ReconcileResult['failed'] = [];
+  if (!options.dryRun) {
+    for (const mismatch of mismatches) {
+      const link = { source: mismatch.source, target: mismatch.target };
+      try {
+        if (mismatch.action === 'follow') {
+          await api.follow({ ...link, create_notification_activity: false, skip_push: true });
+        } else {
+          await api.unfollow(link);
+        }
+      } catch (error) {
+        failed.push({ ...mismatch, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  return { userId, mismatches, failed };
+}
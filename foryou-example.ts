@@ -1,7 +1,12 @@
 import dotenv from 'dotenv';
-import { FeedsClient } from '@stream-io/feeds-client';
+import { EventEmitter } from 'events';
+import { ActivityResponse, FeedsClient } from '@stream-io/feeds-client';
+import { StreamClient } from '@stream-io/node-sdk';
 import WebSocket from 'ws';
 import { StreamTokenProvider, TokenManager } from './tokenProvider';
+import { createStreamBackend, getStreamMode } from './streamBackend';
+import { applyPushFilter, PushCategoryRegistry, PushContent, PushFilter } from './globalPush';
+import { BroadcastProgress, BroadcastRunner, BroadcastStore } from './broadcastRunner';
 
 // 加载环境变量
 dotenv.config();
@@ -20,16 +25,61 @@ interface GlobalPushConfig {
   apiKey: string;
   apiSecret: string;
   userId: string;
+  /** 创建 FeedsClient 的工厂，不传时直接连接 Stream */
+  createClient?: () => FeedsClient;
+  /** 服务端客户端，用于向所有用户广播，不传时直接连接 Stream */
+  streamClient?: StreamClient;
+  /** 推送分类注册表，不传时读取 PUSH_CATEGORIES 环境变量 */
+  categories?: PushCategoryRegistry;
 }
 
-class ForYouManager {
+/**
+ * ForYouManager 的监听事件
+ */
+interface ForYouManagerEvents {
+  /** 检测到新的推送内容 */
+  'activity:new': [activity: ActivityResponse];
+  /** 推送内容已从 feed 中删除 */
+  'activity:removed': [activityId: string];
+  /** 检查失败（之后会按退避间隔重试） */
+  'error': [error: unknown];
+}
+
+interface MonitoringOptions {
+  /** 每次检查读取的条数，默认为25 */
+  pageSize?: number;
+  /** 每次检查最多向后翻的页数（新内容超过一页时），默认为5 */
+  maxPages?: number;
+  /** 连续失败时的最大重试间隔（毫秒），默认为5分钟 */
+  maxBackoffMs?: number;
+}
+
+class ForYouManager extends EventEmitter<ForYouManagerEvents> {
   private client: FeedsClient;
+  private broadcastRunner: BroadcastRunner;
   private tokenManager: TokenManager;
   private userId: string;
+  private categories: PushCategoryRegistry;
+
+  // 监听状态
+  private monitorTimer?: NodeJS.Timeout;
+  private monitoring = false;
+  // 当前窗口中已知的活动（ID -> 创建时间）
+  private knownActivities = new Map<string, number>();
+  // 已见过的最新活动的创建时间
+  private cursor = 0;
+  private consecutiveFailures = 0;
 
   constructor(config: GlobalPushConfig) {
-    this.client = new FeedsClient(config.apiKey);
+    super();
+    this.client = config.createClient ? config.createClient() : new FeedsClient(config.apiKey);
     this.userId = config.userId;
+    this.categories = config.categories || PushCategoryRegistry.fromEnv();
+    this.broadcastRunner = new BroadcastRunner(
+      config.streamClient || new StreamClient(config.apiKey, config.apiSecret),
+      new BroadcastStore(),
+      this.categories
+    );
     
     const tokenProvider = new StreamTokenProvider(config.apiKey, config.apiSecret);
     this.tokenManager = new TokenManager(tokenProvider);
@@ -55,39 +105,35 @@ class ForYouManager {
   }
 
   /**
-   * 添加全局推送内容
+   * 添加全局推送内容：以当前用户身份发布到所有用户的 foryou feed
+   * @returns 广播结果（已投递和失败的用户数）
    */
-  async addGlobalPush(content: {
-    text: string;
-    type: string;
-    priority?: 'high' | 'medium' | 'low';
-    category?: string;
-  }): Promise<any> {
-    const foryouFeed = this.getForYouFeed();
-    
+  async addGlobalPush(content: PushContent): Promise<BroadcastProgress> {
     console.log(`📝 正在添加全局推送: ${content.text}`);
     
-    const activity = await foryouFeed.addActivity({
-      text: content.text,
-      type: content.type
-    });
+    // 优先级和分类保存在 custom 中，分类必须已在注册表中
+    const job = this.broadcastRunner.create(content, this.userId);
+    const result = await this.broadcastRunner.run(job.id);
     
-    console.log("✅ 全局推送添加成功");
-    return activity;
+    console.log(`✅ 全局推送添加成功，已投递 ${result.delivered} 个用户`);
+    return this.broadcastRunner.getProgress(result);
   }
 
   /**
    * 获取用户的推荐内容
+   * @param limit 读取条数
+   * @param filter 按优先级或分类筛选；高优先级推送总是排在最前
    */
-  async getRecommendations(limit: number = 10): Promise<any> {
+  async getRecommendations(limit: number = 10, filter: PushFilter = {}): Promise<any> {
     const foryouFeed = this.getForYouFeed();
     
     console.log("📖 正在获取推荐内容...");
     
     try {
       const content = await foryouFeed.getOrCreate({ limit });
-      console.log(`✅ 获取到 ${content.activities?.length || 0} 条推荐内容`);
-      return content;
+      const activities = applyPushFilter(content.activities || [], filter);
+      console.log(`✅ 获取到 ${activities.length} 条推荐内容`);
+      return { ...content, activities };
     } catch (error) {
       console.error("❌ 获取推荐内容失败:", error);
       throw error;
@@ -105,44 +151,144 @@ class ForYouManager {
 
     console.log("\n🌟 === 推荐内容 ===");
     content.activities.forEach((activity: any, index: number) => {
-      console.log(`${index + 1}. [${activity.type}] ${activity.text || '无文本内容'}`);
+      const priority = activity.custom?.priority ? ` (${activity.custom.priority})` : '';
+      const category = activity.custom?.category ? ` #${activity.custom.category}` : '';
+      console.log(`${index + 1}. [${activity.type}]${priority}${category} ${activity.text || '无文本内容'}`);
       console.log(`   ⏰ 时间: ${new Date(activity.time).toLocaleString()}`);
       console.log("   ---");
     });
   }
 
   /**
-   * 启动实时监听（简化版本）
+   * 启动推送监听
+   *
+   * 按活动 ID 和创建时间对比前后两次读取的结果，通过事件通知：
+   * activity:new（新内容）、activity:removed（内容被删除）、error（检查失败）。
+   * 连续失败时按指数退避延长检查间隔，成功后恢复。
+   * @param intervalMs 检查间隔（毫秒）
    */
-  startMonitoring(intervalMs: number = 30000): NodeJS.Timeout {
+  startMonitoring(intervalMs: number = 30000, options: MonitoringOptions = {}): void {
+    if (this.monitoring) {
+      return;
+    }
+
+    const pageSize = options.pageSize ?? 25;
+    const maxPages = options.maxPages ?? 5;
+    const maxBackoffMs = options.maxBackoffMs ?? 5 * 60 * 1000;
+
     console.log(`🔄 启动推送监听 (每 ${intervalMs/1000} 秒检查一次)...`);
-    
-    let lastCount = 0;
-    
-    return setInterval(async () => {
+    this.monitoring = true;
+    this.knownActivities.clear();
+    this.cursor = 0;
+    this.consecutiveFailures = 0;
+
+    let isBaseline = true;
+    const poll = async () => {
       try {
-        const content = await this.getRecommendations(5);
-        const currentCount = content.activities?.length || 0;
-        
-        if (currentCount > lastCount) {
-          console.log("🔔 检测到新的推送内容！");
-          const newActivities = content.activities?.slice(0, currentCount - lastCount);
-          newActivities?.forEach((activity: any) => {
-            console.log(`📢 新推送: [${activity.type}] ${activity.text}`);
-          });
-        }
-        
-        lastCount = currentCount;
+        await this.checkForChanges(pageSize, maxPages, isBaseline);
+        isBaseline = false;
+        this.consecutiveFailures = 0;
       } catch (error) {
-        console.error("❌ 监听过程中发生错误:", error);
+        this.consecutiveFailures++;
+        // 没有 error 监听器时 EventEmitter 会直接抛出，这里只记录日志
+        if (this.listenerCount('error') > 0) {
+          this.emit('error', error);
+        } else {
+          console.error("❌ 监听过程中发生错误:", error);
+        }
+      }
+
+      if (!this.monitoring) {
+        return;
       }
-    }, intervalMs);
+      const delay = this.consecutiveFailures > 0
+        ? Math.min(intervalMs * 2 ** this.consecutiveFailures, maxBackoffMs)
+        : intervalMs;
+      if (this.consecutiveFailures > 0) {
+        console.warn(`⏳ 已连续失败 ${this.consecutiveFailures} 次，${Math.round(delay / 1000)} 秒后重试`);
+      }
+      this.monitorTimer = setTimeout(poll, delay);
+    };
+
+    poll();
+  }
+
+  /**
+   * 停止推送监听
+   */
+  stop(): void {
+    if (!this.monitoring) {
+      return;
+    }
+    this.monitoring = false;
+    if (this.monitorTimer) {
+      clearTimeout(this.monitorTimer);
+      this.monitorTimer = undefined;
+    }
+    console.log("🛑 推送监听已停止");
+  }
+
+  /**
+   * 读取 feed 并与上一次的结果对比
+   * @param isBaseline 首次读取只记录当前内容，不触发事件
+   */
+  private async checkForChanges(pageSize: number, maxPages: number, isBaseline: boolean): Promise<void> {
+    const foryouFeed = this.getForYouFeed();
+    const activities: ActivityResponse[] = [];
+
+    // 新内容超过一页时继续向后翻，直到遇到已见过的内容
+    let next: string | undefined;
+    for (let page = 0; page < maxPages; page++) {
+      const content = await foryouFeed.getOrCreate({ limit: pageSize, ...(next ? { next } : {}) });
+      const pageActivities = content.activities || [];
+      activities.push(...pageActivities);
+
+      next = content.next;
+      const reachedKnown = pageActivities.some(activity =>
+        this.knownActivities.has(activity.id) || this.timeOf(activity) <= this.cursor
+      );
+      if (isBaseline || reachedKnown || !next) {
+        break;
+      }
+    }
+
+    const current = new Map(activities.map(activity => [activity.id, this.timeOf(activity)]));
+
+    if (!isBaseline) {
+      // 新内容：之前没见过，且不早于游标（更早的内容只是因为删除而滑入窗口）
+      const newActivities = activities
+        .filter(activity => !this.knownActivities.has(activity.id) && this.timeOf(activity) >= this.cursor)
+        .reverse();
+      for (const activity of newActivities) {
+        console.log(`📢 新推送: [${activity.type}] ${activity.text}`);
+        this.emit('activity:new', activity);
+      }
+
+      // 删除的内容：仍在当前窗口的时间范围内却不见了（更早的只是滑出了窗口）
+      const oldest = activities.length > 0 ? Math.min(...current.values()) : 0;
+      for (const [activityId, createdAt] of this.knownActivities) {
+        if (!current.has(activityId) && (activities.length < pageSize || createdAt >= oldest)) {
+          console.log(`🗑️ 推送已删除: ${activityId}`);
+          this.emit('activity:removed', activityId);
+        }
+      }
+    }
+
+    this.knownActivities = current;
+    for (const createdAt of current.values()) {
+      this.cursor = Math.max(this.cursor, createdAt);
+    }
+  }
+
+  private timeOf(activity: ActivityResponse): number {
+    return new Date(activity.created_at).getTime();
   }
 
   /**
    * 清理资源
    */
   cleanup(): void {
+    this.stop();
     this.tokenManager.clearToken();
     console.log("🧹 资源清理完成");
   }
@@ -152,9 +298,11 @@ class ForYouManager {
  * 使用示例
  */
 async function demonstrateForYouGroup() {
+  // 本地模式下可以不配置 API Key / Secret
+  const isLocal = getStreamMode() === 'local';
   const config = {
-    apiKey: process.env.STREAM_API_KEY!,
-    apiSecret: process.env.STREAM_API_SECRET!,
+    apiKey: process.env.STREAM_API_KEY || (isLocal ? 'local' : ''),
+    apiSecret: process.env.STREAM_API_SECRET || (isLocal ? 'local-secret' : ''),
     userId: process.env.STREAM_USER_ID!
   };
 
@@ -164,7 +312,12 @@ async function demonstrateForYouGroup() {
     return;
   }
 
-  const forYouManager = new ForYouManager(config);
+  const backend = createStreamBackend({ apiKey: config.apiKey, apiSecret: config.apiSecret });
+  const forYouManager = new ForYouManager({
+    ...config,
+    createClient: backend.createFeedsClient,
+    streamClient: backend.streamClient
+  });
 
   try {
     // 初始化
@@ -197,12 +350,20 @@ async function demonstrateForYouGroup() {
     forYouManager.displayRecommendations(recommendations);
 
     // 启动监听（在实际应用中，这通常在后台运行）
-    const monitoringInterval = forYouManager.startMonitoring(10000);
+    forYouManager.on('activity:new', activity => {
+      console.log(`🔔 收到新推送: ${activity.text || '无文本内容'}`);
+    });
+    forYouManager.on('activity:removed', activityId => {
+      console.log(`🔕 推送已撤回: ${activityId}`);
+    });
+    forYouManager.on('error', error => {
+      console.error("❌ 检查推送失败:", error);
+    });
+    forYouManager.startMonitoring(10000);
 
     // 模拟运行一段时间后停止
     setTimeout(() => {
       console.log("\n🛑 停止监听...");
-      clearInterval(monitoringInterval);
       forYouManager.cleanup();
       console.log("🎊 ForYou Group 演示完成！");
     }, 30000); // 30秒后停止
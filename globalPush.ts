@@ -0,0 +1,178 @@
+/**
+ * 全局推送的优先级、分类和筛选
+ *
+ * 推送的优先级和分类保存在活动的 custom 数据中：
+ * { custom: { priority: 'high', category: 'announcement' } }
+ *
+ * 过期时间同时写入 Stream 原生的 expires_at 和 custom.expires_at。
+ */
+
+export type PushPriority = 'high' | 'medium' | 'low';
+
+export const PUSH_PRIORITIES: PushPriority[] = ['high', 'medium', 'low'];
+
+export const DEFAULT_PUSH_PRIORITY: PushPriority = 'medium';
+
+export const DEFAULT_PUSH_CATEGORIES = ['announcement', 'update', 'content', 'marketing'];
+
+export interface PushContent {
+  text: string;
+  type: string;
+  priority?: PushPriority;
+  category?: string;
+  /** 过期时间（ISO 8601），过期后不再出现在 foryou feed 中 */
+  expiresAt?: string;
+}
+
+export interface PushFilter {
+  priority?: PushPriority;
+  category?: string;
+}
+
+/**
+ * 推送分类注册表
+ */
+export class PushCategoryRegistry {
+  private categories: Set<string>;
+
+  constructor(categories: string[] = DEFAULT_PUSH_CATEGORIES) {
+    this.categories = new Set(categories.map(category => category.trim()).filter(Boolean));
+  }
+
+  /**
+   * 从环境变量 PUSH_CATEGORIES（逗号分隔）创建，未配置时使用默认分类
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): PushCategoryRegistry {
+    return new PushCategoryRegistry(parsePushCategories(env.PUSH_CATEGORIES));
+  }
+
+  has(category: string): boolean {
+    return this.categories.has(category);
+  }
+
+  list(): string[] {
+    return [...this.categories];
+  }
+}
+
+/**
+ * 解析逗号分隔的分类列表，为空时返回默认分类
+ */
+export function parsePushCategories(value: string | undefined): string[] {
+  const categories = (value || '').split(',').map(category => category.trim()).filter(Boolean);
+  return categories.length > 0 ? categories : DEFAULT_PUSH_CATEGORIES;
+}
+
+export function isPushPriority(value: unknown): value is PushPriority {
+  return typeof value === 'string' && (PUSH_PRIORITIES as string[]).includes(value);
+}
+
+/**
+ * 校验推送的优先级、分类和过期时间（也用于校验筛选条件）
+ * @returns 错误信息，合法时返回 null
+ */
+export function validatePushMetadata(
+  metadata: { priority?: unknown; category?: unknown; expiresAt?: unknown },
+  registry: PushCategoryRegistry,
+  now: Date = new Date()
+): string | null {
+  if (metadata.priority !== undefined && !isPushPriority(metadata.priority)) {
+    return `priority 必须是 ${PUSH_PRIORITIES.join(', ')} 之一`;
+  }
+  if (metadata.category !== undefined) {
+    if (typeof metadata.category !== 'string' || !registry.has(metadata.category)) {
+      return `category 必须是已注册的分类: ${registry.list().join(', ')}`;
+    }
+  }
+  if (metadata.expiresAt !== undefined && metadata.expiresAt !== null) {
+    const time = typeof metadata.expiresAt === 'string' ? new Date(metadata.expiresAt).getTime() : NaN;
+    if (isNaN(time)) {
+      return 'expiresAt 必须是 ISO 8601 格式的时间';
+    }
+    if (time <= now.getTime()) {
+      return 'expiresAt 必须是将来的时间';
+    }
+  }
+  return null;
+}
+
+/**
+ * 构造推送活动（addActivity 的请求内容），优先级默认为 medium
+ * @throws 优先级或分类不合法时抛出错误
+ */
+export function buildPushActivity(content: PushContent, registry: PushCategoryRegistry) {
+  const error = validatePushMetadata(content, registry);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const custom: Record<string, unknown> = {
+    priority: content.priority || DEFAULT_PUSH_PRIORITY
+  };
+  if (content.category) {
+    custom.category = content.category;
+  }
+
+  let expiresAt: string | undefined;
+  if (content.expiresAt) {
+    expiresAt = new Date(content.expiresAt).toISOString();
+    custom.expires_at = expiresAt;
+  }
+
+  return {
+    text: content.text,
+    type: content.type,
+    custom,
+    ...(expiresAt ? { expires_at: expiresAt } : {})
+  };
+}
+
+/**
+ * 推送的过期时间（优先读取 custom.expires_at），没有设置时返回 null
+ */
+export function getPushExpiry(activity: { custom?: Record<string, any>; expires_at?: string | Date }): Date | null {
+  const value = activity.custom?.expires_at ?? activity.expires_at;
+  if (!value) {
+    return null;
+  }
+  const expiry = new Date(value);
+  return isNaN(expiry.getTime()) ? null : expiry;
+}
+
+export function isPushExpired(activity: { custom?: Record<string, any>; expires_at?: string | Date }, now: Date = new Date()): boolean {
+  const expiry = getPushExpiry(activity);
+  return expiry !== null && expiry.getTime() <= now.getTime();
+}
+
+/**
+ * 推送是否未过期且符合优先级和分类筛选
+ */
+export function matchesPushFilter(
+  activity: { custom?: Record<string, any>; expires_at?: string | Date },
+  filter: PushFilter = {},
+  now: Date = new Date()
+): boolean {
+  return !isPushExpired(activity, now) &&
+    (!filter.priority || activity.custom?.priority === filter.priority) &&
+    (!filter.category || activity.custom?.category === filter.category);
+}
+
+/**
+ * 把高优先级推送置顶（其余保持原有顺序）
+ */
+export function pinHighPriority<T extends { custom?: Record<string, any> }>(activities: T[]): T[] {
+  const pinned = activities.filter(activity => activity.custom?.priority === 'high');
+  const others = activities.filter(activity => activity.custom?.priority !== 'high');
+  return [...pinned, ...others];
+}
+
+/**
+ * 去掉已过期的推送，按优先级和分类筛选，并把高优先级推送置顶（其余保持原有顺序）
+ */
+export function applyPushFilter<T extends { custom?: Record<string, any>; expires_at?: string | Date }>(
+  activities: T[],
+  filter: PushFilter = {},
+  now: Date = new Date()
+): T[] {
+  return pinHighPriority(activities.filter(activity => matchesPushFilter(activity, filter, now)));
+}
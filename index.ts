@@ -1,7 +1,7 @@
 import dotenv from 'dotenv';
-import { FeedsClient } from '@stream-io/feeds-client';
 import WebSocket from 'ws';
 import { StreamTokenProvider, TokenManager } from './tokenProvider';
+import { createStreamBackend, getStreamMode } from './streamBackend';
 
 // 加载环境变量
 dotenv.config();
@@ -17,8 +17,10 @@ interface Config {
 }
 
 function validateConfig(): Config {
-  const apiKey = process.env.STREAM_API_KEY;
-  const apiSecret = process.env.STREAM_API_SECRET;
+  // 本地模式下可以不配置 API Key / Secret
+  const isLocal = getStreamMode() === 'local';
+  const apiKey = process.env.STREAM_API_KEY || (isLocal ? 'local' : undefined);
+  const apiSecret = process.env.STREAM_API_SECRET || (isLocal ? 'local-secret' : undefined);
   const userId = 'linson';
   const tokenValiditySeconds = parseInt(process.env.TOKEN_VALIDITY_SECONDS || '3600');
 
@@ -53,17 +55,25 @@ async function main() {
     console.log("\n📡 正在初始化 Stream Feeds 客户端...");
     
     // 初始化客户端
-    const client = new FeedsClient(config.apiKey, {timeout: 10000});
+    const backend = createStreamBackend({
+      apiKey: config.apiKey,
+      apiSecret: config.apiSecret,
+      timeout: 10000
+    });
+    const client = backend.createFeedsClient();
     
     // 初始化令牌提供者
      const tokenProvider = new StreamTokenProvider(config.apiKey, config.apiSecret);
-     const tokenManager = new TokenManager(tokenProvider);
+     const tokenManager = new TokenManager(tokenProvider, {
+       validityInSeconds: config.tokenValiditySeconds
+     });
      
-     // 设置令牌刷新回调
-     tokenManager.setRefreshCallback((newToken: string) => {
-       console.log("🔄 令牌已自动刷新！");
-       // 在实际应用中，这里可能需要重新连接客户端
-       // 目前只是记录日志
+     // 设置令牌刷新回调：使用新令牌重新连接客户端
+     tokenManager.setRefreshCallback(async (userId: string, newToken: string) => {
+       console.log(`🔄 用户 ${userId} 的令牌已自动刷新，正在重新连接...`);
+       await client.disconnectUser();
+       await client.connectUser({ id: userId }, newToken);
+       console.log("✅ 已使用新令牌重新连接");
      });
      
      // 生成用户令牌
@@ -0,0 +1,26 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * 读取 JSON 文件，文件不存在时返回默认值
+ * @param filePath 文件路径
+ * @param fallback 文件不存在时的默认值
+ */
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  if (!fs.existsSync(filePath)) {
+    return fallback;
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+}
+
+/**
+ * 写入 JSON 文件（先写临时文件再重命名，避免进程中途退出时留下半个文件）
+ * @param filePath 文件路径
+ * @param data 要写入的数据
+ */
+export function writeJsonFile(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tempPath, filePath);
+}
@@ -0,0 +1,1400 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+
+/**
+ * 本地 Stream 替身（STREAM_MODE=local）
+ *
+ * 在进程内实现本项目用到的 FeedsClient / StreamClient 子集，数据保存在内存中，
+ * 也可以持久化到 JSON 文件。只用于离线开发和演示，不追求与 Stream 行为完全一致。
+ */
+
+interface StoredUser {
+  id: string;
+  name?: string;
+  image?: string;
+  role: string;
+  custom: Record<string, any>;
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string;
+}
+
+interface StoredActivity {
+  id: string;
+  type: string;
+  text?: string;
+  user_id: string;
+  feeds: string[];
+  custom: Record<string, any>;
+  interest_tags: string[];
+  filter_tags: string[];
+  mentioned_user_ids: string[];
+  created_at: string;
+  updated_at: string;
+  edited_at?: string;
+  expires_at?: string;
+  notification_context?: NotificationContext;
+}
+
+/**
+ * 通知活动的来源：trigger 为触发通知的操作，target 为被操作的对象
+ */
+interface NotificationContext {
+  trigger: { type: string; text: string };
+  target?: { id: string; type?: string; text?: string; user_id?: string };
+}
+
+/**
+ * 通知 feed 的已读/已看状态：按聚合分组记录，分组有新通知后重新变为未读
+ */
+interface StoredNotificationState {
+  last_read_at?: string;
+  last_seen_at?: string;
+  /** 分组 -> 标记已读的时间 */
+  read_groups: Record<string, string>;
+  /** 分组 -> 标记已看的时间 */
+  seen_groups: Record<string, string>;
+}
+
+interface StoredFeed {
+  fid: string;
+  group_id: string;
+  id: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface StoredFollow {
+  source: string;
+  target: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface StoredReaction {
+  type: string;
+  user_id: string;
+  activity_id?: string;
+  comment_id?: string;
+  custom: Record<string, any>;
+  created_at: string;
+  updated_at: string;
+}
+
+interface StoredComment {
+  id: string;
+  object_id: string;
+  object_type: string;
+  parent_id?: string;
+  text?: string;
+  user_id: string;
+  custom: Record<string, any>;
+  mentioned_user_ids: string[];
+  created_at: string;
+  updated_at: string;
+  edited_at?: string;
+}
+
+interface StoredBookmark {
+  activity_id: string;
+  user_id: string;
+  folder_id?: string;
+  custom: Record<string, any>;
+  created_at: string;
+  updated_at: string;
+}
+
+interface LocalStreamData {
+  users: Record<string, StoredUser>;
+  activities: Record<string, StoredActivity>;
+  feeds: Record<string, StoredFeed>;
+  follows: StoredFollow[];
+  activityReactions: StoredReaction[];
+  comments: Record<string, StoredComment>;
+  commentReactions: StoredReaction[];
+  bookmarks: StoredBookmark[];
+  notificationStates: Record<string, StoredNotificationState>;
+}
+
+function emptyData(): LocalStreamData {
+  return {
+    users: {},
+    activities: {},
+    feeds: {},
+    follows: [],
+    activityReactions: [],
+    comments: {},
+    commentReactions: [],
+    bookmarks: [],
+    notificationStates: {}
+  };
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function notFound(what: string): Error {
+  return new Error(`Stream error code 16: ${what} does not exist (404)`);
+}
+
+/**
+ * 本地数据存储，所有本地客户端共享同一份数据
+ */
+export class LocalStreamStore {
+  data: LocalStreamData;
+  /** 实时事件，对应 Stream 通过 WebSocket 推送的 feeds.* 事件 */
+  readonly events = new EventEmitter();
+  private filePath?: string;
+
+  /**
+   * @param filePath 持久化用的 JSON 文件路径，不传则只保存在内存中
+   */
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+    this.data = { ...emptyData(), ...(filePath ? readJsonFile<Partial<LocalStreamData>>(filePath, {}) : {}) };
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * 写回 JSON 文件（仅在配置了文件路径时）
+   */
+  save(): void {
+    if (this.filePath) {
+      writeJsonFile(this.filePath, this.data);
+    }
+  }
+
+  /**
+   * 初始化示例用户（仅在没有任何用户时生效）
+   * @param users 用户ID和角色列表
+   */
+  seedUsers(users: Array<{ id: string; role?: string }>): void {
+    if (Object.keys(this.data.users).length > 0) {
+      return;
+    }
+    for (const user of users) {
+      this.ensureUser(user.id).role = user.role || 'user';
+    }
+    this.save();
+  }
+
+  ensureUser(userId: string): StoredUser {
+    let user = this.data.users[userId];
+    if (!user) {
+      const timestamp = now();
+      user = { id: userId, role: 'user', custom: {}, created_at: timestamp, updated_at: timestamp };
+      this.data.users[userId] = user;
+    }
+    return user;
+  }
+
+  ensureFeed(fid: string, createdBy: string): StoredFeed {
+    let feed = this.data.feeds[fid];
+    if (!feed) {
+      const [group_id, id] = fid.split(':');
+      const timestamp = now();
+      feed = { fid, group_id, id, created_by: createdBy, created_at: timestamp, updated_at: timestamp };
+      this.data.feeds[fid] = feed;
+    }
+    return feed;
+  }
+}
+
+// ==================== 过滤和分页 ====================
+
+type FieldAccessor<T> = (item: T) => any;
+
+/**
+ * 按 Stream 风格的过滤条件匹配数据，支持 $eq/$ne/$in/$nin/$gt/$gte/$lt/$lte/$contains/$exists 和 $and/$or
+ */
+function matchesFilter<T>(item: T, filter: Record<string, any> | undefined, fields: Record<string, FieldAccessor<T>>): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$and') {
+      return (condition as any[]).every(sub => matchesFilter(item, sub, fields));
+    }
+    if (key === '$or') {
+      return (condition as any[]).some(sub => matchesFilter(item, sub, fields));
+    }
+
+    const accessor = fields[key] || ((value: any) => key.split('.').reduce((obj, part) => obj?.[part], value));
+    const value = accessor(item);
+    return matchesCondition(value, condition);
+  });
+}
+
+function matchesCondition(value: any, condition: any): boolean {
+  const isOperatorObject = condition !== null && typeof condition === 'object' && !Array.isArray(condition) &&
+    Object.keys(condition).some(key => key.startsWith('$'));
+
+  if (!isOperatorObject) {
+    return Array.isArray(value) ? value.includes(condition) : value === condition;
+  }
+
+  return Object.entries(condition).every(([operator, operand]: [string, any]) => {
+    switch (operator) {
+      case '$eq':
+        return Array.isArray(value) ? value.includes(operand) : value === operand;
+      case '$ne':
+        return value !== operand;
+      case '$in':
+        return Array.isArray(value)
+          ? value.some(v => (operand as any[]).includes(v))
+          : (operand as any[]).includes(value);
+      case '$nin':
+        return !(operand as any[]).includes(value);
+      case '$gt':
+        return value !== undefined && value > operand;
+      case '$gte':
+        return value !== undefined && value >= operand;
+      case '$lt':
+        return value !== undefined && value < operand;
+      case '$lte':
+        return value !== undefined && value <= operand;
+      case '$contains':
+        return Array.isArray(value) ? value.includes(operand) : String(value ?? '').includes(operand);
+      case '$exists':
+        return operand ? value !== undefined && value !== null : value === undefined || value === null;
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * 基于偏移量的游标分页，next/prev 为偏移量的 base64 编码
+ */
+function paginate<T>(items: T[], request: { limit?: number; next?: string; prev?: string }, defaultLimit: number = 25) {
+  const limit = request.limit || defaultLimit;
+  const decode = (cursor: string) => parseInt(Buffer.from(cursor, 'base64').toString('utf-8'), 10) || 0;
+  const encode = (offset: number) => Buffer.from(String(offset)).toString('base64');
+
+  let offset = 0;
+  if (request.next) {
+    offset = decode(request.next);
+  } else if (request.prev) {
+    offset = Math.max(0, decode(request.prev) - limit);
+  }
+
+  const page = items.slice(offset, offset + limit);
+  return {
+    items: page,
+    next: offset + limit < items.length ? encode(offset + limit) : undefined,
+    prev: offset > 0 ? encode(offset) : undefined
+  };
+}
+
+function sortByCreatedAt<T extends { created_at: string }>(items: T[], sort?: any): T[] {
+  let direction = -1;
+  if (Array.isArray(sort) && sort[0]) {
+    direction = sort[0].direction ?? -1;
+  } else if (sort === 'first') {
+    direction = 1;
+  }
+  return [...items].sort((a, b) => direction * a.created_at.localeCompare(b.created_at));
+}
+
+// 通知 feed 的分组：同一天对同一对象的同类操作合并为一组
+function notificationGroup(activity: StoredActivity): string {
+  const targetId = activity.notification_context?.target?.id || activity.user_id;
+  return `${activity.type}-${targetId}-${activity.created_at.slice(0, 10)}`;
+}
+
+const activityFields: Record<string, FieldAccessor<StoredActivity>> = {
+  activity_type: a => a.type,
+  user_id: a => a.user_id,
+  feed: a => a.feeds
+};
+
+const reactionFields: Record<string, FieldAccessor<StoredReaction>> = {
+  reaction_type: r => r.type,
+  user_id: r => r.user_id
+};
+
+const commentFields: Record<string, FieldAccessor<StoredComment>> = {};
+
+const followFields: Record<string, FieldAccessor<StoredFollow>> = {
+  source_feed: f => f.source,
+  target_feed: f => f.target
+};
+
+const bookmarkFields: Record<string, FieldAccessor<StoredBookmark>> = {};
+
+const userFields: Record<string, FieldAccessor<StoredUser>> = {};
+
+// ==================== Feeds API ====================
+
+/**
+ * 本地实现的 Feeds API，服务端（StreamClient.feeds）和客户端（FeedsClient）共用
+ */
+export class LocalFeedsApi {
+  protected store: LocalStreamStore;
+  protected userId?: string;
+
+  constructor(store: LocalStreamStore, userId?: string) {
+    this.store = store;
+    this.userId = userId;
+  }
+
+  /**
+   * 当前操作的用户：客户端为已连接用户，服务端需要在请求中提供 user_id
+   */
+  protected actingUser(request?: { user_id?: string }): string {
+    const userId = this.userId || request?.user_id;
+    if (!userId) {
+      throw new Error('本地 Stream: 服务端请求需要提供 user_id');
+    }
+    return userId;
+  }
+
+  protected data(): LocalStreamData {
+    return this.store.data;
+  }
+
+  // ---------- 数据转换 ----------
+
+  protected userResponse(userId: string) {
+    const user = this.data().users[userId];
+    return {
+      id: userId,
+      name: user?.name,
+      image: user?.image,
+      role: user?.role || 'user',
+      custom: user?.custom || {},
+      created_at: user?.created_at,
+      updated_at: user?.updated_at
+    };
+  }
+
+  protected feedResponse(fid: string) {
+    const feed = this.data().feeds[fid];
+    const [group_id, id] = fid.split(':');
+    const follows = this.data().follows;
+    return {
+      feed: fid,
+      group_id,
+      id,
+      name: fid,
+      description: '',
+      activity_count: Object.values(this.data().activities).filter(a => a.feeds.includes(fid)).length,
+      follower_count: follows.filter(f => f.target === fid).length,
+      following_count: follows.filter(f => f.source === fid).length,
+      member_count: 0,
+      pin_count: 0,
+      created_by: this.userResponse(feed?.created_by || id),
+      created_at: feed?.created_at || now(),
+      updated_at: feed?.updated_at || now()
+    };
+  }
+
+  protected reactionGroups(reactions: StoredReaction[]) {
+    const groups: Record<string, any> = {};
+    for (const reaction of reactions) {
+      const group = groups[reaction.type] || (groups[reaction.type] = {
+        count: 0,
+        sum_scores: 0,
+        first_reaction_at: reaction.created_at,
+        last_reaction_at: reaction.created_at
+      });
+      group.count++;
+      group.sum_scores++;
+      if (reaction.created_at < group.first_reaction_at) group.first_reaction_at = reaction.created_at;
+      if (reaction.created_at > group.last_reaction_at) group.last_reaction_at = reaction.created_at;
+    }
+    return groups;
+  }
+
+  protected reactionResponse(reaction: StoredReaction) {
+    return {
+      ...reaction,
+      user: this.userResponse(reaction.user_id)
+    };
+  }
+
+  protected activityResponse(activity: StoredActivity, viewerId?: string) {
+    const data = this.data();
+    const reactions = data.activityReactions.filter(r => r.activity_id === activity.id);
+    const bookmarks = data.bookmarks.filter(b => b.activity_id === activity.id);
+    const comments = Object.values(data.comments).filter(c => c.object_type === 'activity' && c.object_id === activity.id);
+
+    return {
+      id: activity.id,
+      type: activity.type,
+      text: activity.text,
+      feeds: activity.feeds,
+      custom: activity.custom,
+      interest_tags: activity.interest_tags,
+      filter_tags: activity.filter_tags,
+      mentioned_users: activity.mentioned_user_ids.map(id => this.userResponse(id)),
+      user: this.userResponse(activity.user_id),
+      created_at: activity.created_at,
+      updated_at: activity.updated_at,
+      edited_at: activity.edited_at,
+      expires_at: activity.expires_at,
+      notification_context: activity.notification_context,
+      visibility: 'public',
+      attachments: [],
+      collections: {},
+      search_data: {},
+      hidden: false,
+      preview: false,
+      popularity: reactions.length + comments.length,
+      score: 0,
+      share_count: 0,
+      restrict_replies: 'everyone',
+      reaction_count: reactions.length,
+      reaction_groups: this.reactionGroups(reactions),
+      latest_reactions: reactions.slice(-5).reverse().map(r => this.reactionResponse(r)),
+      own_reactions: viewerId ? reactions.filter(r => r.user_id === viewerId).map(r => this.reactionResponse(r)) : [],
+      comment_count: comments.length,
+      comments: [],
+      bookmark_count: bookmarks.length,
+      own_bookmarks: viewerId ? bookmarks.filter(b => b.user_id === viewerId) : []
+    };
+  }
+
+  protected commentResponse(comment: StoredComment, viewerId?: string) {
+    const data = this.data();
+    const reactions = data.commentReactions.filter(r => r.comment_id === comment.id);
+    const replies = Object.values(data.comments).filter(c => c.parent_id === comment.id);
+
+    return {
+      id: comment.id,
+      object_id: comment.object_id,
+      object_type: comment.object_type,
+      parent_id: comment.parent_id,
+      text: comment.text,
+      custom: comment.custom,
+      user: this.userResponse(comment.user_id),
+      mentioned_users: comment.mentioned_user_ids.map(id => this.userResponse(id)),
+      created_at: comment.created_at,
+      updated_at: comment.updated_at,
+      edited_at: comment.edited_at,
+      status: 'active',
+      score: 0,
+      confidence_score: 0,
+      upvote_count: 0,
+      downvote_count: 0,
+      reply_count: replies.length,
+      reaction_count: reactions.length,
+      reaction_groups: this.reactionGroups(reactions),
+      latest_reactions: reactions.slice(-5).reverse().map(r => this.reactionResponse(r)),
+      own_reactions: viewerId ? reactions.filter(r => r.comment_id === comment.id && r.user_id === viewerId).map(r => this.reactionResponse(r)) : []
+    };
+  }
+
+  protected followResponse(follow: StoredFollow) {
+    return {
+      source_feed: this.feedResponse(follow.source),
+      target_feed: this.feedResponse(follow.target),
+      status: 'accepted',
+      follower_role: 'follower',
+      push_preference: 'all',
+      created_at: follow.created_at,
+      updated_at: follow.updated_at
+    };
+  }
+
+  protected getStoredActivity(id: string): StoredActivity {
+    const activity = this.data().activities[id];
+    if (!activity) {
+      throw notFound(`activity ${id}`);
+    }
+    return activity;
+  }
+
+  protected getStoredComment(id: string): StoredComment {
+    const comment = this.data().comments[id];
+    if (!comment) {
+      throw notFound(`comment ${id}`);
+    }
+    return comment;
+  }
+
+  /**
+   * 发布实时事件：活动所在的 feed 以及关注这些 feed 的 feed 都会收到
+   */
+  protected emitActivityEvent(type: string, activity: StoredActivity, extra: Record<string, any> = {}) {
+    const follows = this.data().follows;
+    const fids = new Set(activity.feeds);
+    for (const follow of follows) {
+      if (activity.feeds.includes(follow.target)) {
+        fids.add(follow.source);
+      }
+    }
+
+    const activityResponse = this.activityResponse(activity);
+    for (const fid of fids) {
+      this.store.events.emit('event', {
+        type,
+        fid,
+        activity: activityResponse,
+        custom: {},
+        created_at: new Date(),
+        ...extra
+      });
+    }
+  }
+
+  // ---------- 通知 ----------
+
+  /**
+   * 为 targetUserId 创建通知活动（自己操作自己的内容时不通知）
+   */
+  protected createNotification(actorId: string, targetUserId: string | undefined, context: NotificationContext) {
+    if (!targetUserId || targetUserId === actorId) {
+      return;
+    }
+
+    const fid = `notification:${targetUserId}`;
+    const timestamp = now();
+    const activity: StoredActivity = {
+      id: crypto.randomUUID(),
+      type: context.trigger.type,
+      text: context.trigger.text,
+      user_id: actorId,
+      feeds: [fid],
+      custom: {},
+      interest_tags: [],
+      filter_tags: [],
+      mentioned_user_ids: [],
+      created_at: timestamp,
+      updated_at: timestamp,
+      notification_context: context
+    };
+    this.store.ensureFeed(fid, targetUserId);
+    this.data().activities[activity.id] = activity;
+    this.emitActivityEvent('feeds.activity.added', activity, { user: this.userResponse(actorId) });
+  }
+
+  protected notificationState(fid: string): StoredNotificationState {
+    const data = this.data();
+    return data.notificationStates[fid] || (data.notificationStates[fid] = { read_groups: {}, seen_groups: {} });
+  }
+
+  /**
+   * 读取通知 feed：按分组聚合，并返回未读和未看的分组数量
+   */
+  protected readNotificationFeed(fid: string, request: any) {
+    const viewerId = this.userId || request.user_id;
+    const state = this.notificationState(fid);
+    const activities = sortByCreatedAt(Object.values(this.data().activities).filter(a => a.feeds.includes(fid)));
+
+    const groups = new Map<string, StoredActivity[]>();
+    for (const activity of activities) {
+      const group = notificationGroup(activity);
+      groups.set(group, [...(groups.get(group) || []), activity]);
+    }
+
+    const aggregated = [...groups.entries()].map(([group, items]) => ({
+      group,
+      activities: items.map(a => this.activityResponse(a, viewerId)),
+      activity_count: items.length,
+      user_count: new Set(items.map(a => a.user_id)).size,
+      user_count_truncated: false,
+      score: 0,
+      // items 按时间倒序，第一条是最新的通知
+      created_at: items[items.length - 1].created_at,
+      updated_at: items[0].created_at
+    }));
+
+    const isMarked = (group: string, updatedAt: string, lastAt: string | undefined, marked: Record<string, string>) =>
+      (!!lastAt && updatedAt <= lastAt) || (!!marked[group] && updatedAt <= marked[group]);
+    const read = aggregated.filter(g => isMarked(g.group, g.updated_at, state.last_read_at, state.read_groups));
+    const seen = aggregated.filter(g => isMarked(g.group, g.updated_at, state.last_seen_at, state.seen_groups));
+
+    const page = paginate(aggregated, request, 25);
+    return {
+      created: false,
+      duration: '0ms',
+      activities: [],
+      aggregated_activities: page.items,
+      notification_status: {
+        unread: aggregated.length - read.length,
+        unseen: aggregated.length - seen.length,
+        last_read_at: state.last_read_at,
+        last_seen_at: state.last_seen_at,
+        read_activities: read.map(g => g.group),
+        seen_activities: seen.map(g => g.group)
+      },
+      followers: [],
+      following: [],
+      members: [],
+      pinned_activities: [],
+      feed: this.feedResponse(fid),
+      next: page.next,
+      prev: page.prev
+    };
+  }
+
+  /**
+   * 标记通知为已读或已看（按分组）
+   */
+  async markActivity(request: {
+    feed_group_id: string;
+    feed_id: string;
+    mark_all_read?: boolean;
+    mark_all_seen?: boolean;
+    mark_read?: string[];
+    mark_seen?: string[];
+  }) {
+    const state = this.notificationState(`${request.feed_group_id}:${request.feed_id}`);
+    const timestamp = now();
+    if (request.mark_all_read) state.last_read_at = timestamp;
+    if (request.mark_all_seen) state.last_seen_at = timestamp;
+    (request.mark_read || []).forEach(group => { state.read_groups[group] = timestamp; });
+    (request.mark_seen || []).forEach(group => { state.seen_groups[group] = timestamp; });
+    this.store.save();
+    return { duration: '0ms' };
+  }
+
+  // ---------- 活动 ----------
+
+  /**
+   * 读取 feed：包括直接发布到该 feed 的活动和它关注的 feed 中的活动
+   */
+  protected readFeed(fid: string, request: any = {}) {
+    const data = this.data();
+    const viewerId = this.userId || request.user_id;
+    this.store.ensureFeed(fid, viewerId || fid.split(':')[1]);
+
+    if (fid.startsWith('notification:')) {
+      return this.readNotificationFeed(fid, request);
+    }
+
+    const sources = new Set([fid, ...data.follows.filter(f => f.source === fid).map(f => f.target)]);
+    const activities = sortByCreatedAt(
+      Object.values(data.activities).filter(a => a.feeds.some(feed => sources.has(feed)))
+    );
+    const page = paginate(activities, request, 25);
+
+    return {
+      created: false,
+      duration: '0ms',
+      activities: page.items.map(a => this.activityResponse(a, viewerId)),
+      aggregated_activities: [],
+      followers: data.follows.filter(f => f.target === fid).slice(0, 10).map(f => this.followResponse(f)),
+      following: data.follows.filter(f => f.source === fid).slice(0, 10).map(f => this.followResponse(f)),
+      members: [],
+      pinned_activities: [],
+      feed: this.feedResponse(fid),
+      next: page.next,
+      prev: page.prev
+    };
+  }
+
+  async addActivity(request: any) {
+    const userId = this.actingUser(request);
+    const timestamp = now();
+    const activity: StoredActivity = {
+      id: request.id || crypto.randomUUID(),
+      type: request.type || 'post',
+      text: request.text,
+      user_id: userId,
+      feeds: request.feeds || [],
+      custom: request.custom || {},
+      interest_tags: request.interest_tags || [],
+      filter_tags: request.filter_tags || [],
+      mentioned_user_ids: request.mentioned_user_ids || [],
+      created_at: timestamp,
+      updated_at: timestamp,
+      expires_at: request.expires_at
+    };
+
+    this.store.ensureUser(userId);
+    activity.feeds.forEach(fid => this.store.ensureFeed(fid, userId));
+    this.data().activities[activity.id] = activity;
+    if (request.create_notification_activity) {
+      for (const mentionedUserId of activity.mentioned_user_ids) {
+        this.createNotification(userId, mentionedUserId, {
+          trigger: { type: 'mention', text: `${userId} mentioned you` },
+          target: { id: activity.id, type: activity.type, text: activity.text, user_id: userId }
+        });
+      }
+    }
+    this.store.save();
+    this.emitActivityEvent('feeds.activity.added', activity, { user: this.userResponse(userId) });
+
+    return { duration: '0ms', activity: this.activityResponse(activity, userId) };
+  }
+
+  async getActivity(request: { id: string }) {
+    const activity = this.getStoredActivity(request.id);
+    return { duration: '0ms', activity: this.activityResponse(activity, this.userId) };
+  }
+
+  async updateActivityPartial(request: { id: string; set?: Record<string, any>; unset?: string[]; user_id?: string }) {
+    const activity = this.getStoredActivity(request.id);
+    const target = activity as any;
+    for (const [key, value] of Object.entries(request.set || {})) {
+      if (key.startsWith('custom.')) {
+        activity.custom[key.slice('custom.'.length)] = value;
+      } else {
+        target[key] = value;
+      }
+    }
+    for (const key of request.unset || []) {
+      if (key.startsWith('custom.')) {
+        delete activity.custom[key.slice('custom.'.length)];
+      } else {
+        delete target[key];
+      }
+    }
+    activity.updated_at = now();
+    activity.edited_at = activity.updated_at;
+    this.store.save();
+    this.emitActivityEvent('feeds.activity.updated', activity);
+
+    return { duration: '0ms', activity: this.activityResponse(activity, this.userId) };
+  }
+
+  async deleteActivity(request: { id: string; hard_delete?: boolean }) {
+    const data = this.data();
+    const activity = this.getStoredActivity(request.id);
+    this.emitActivityEvent('feeds.activity.deleted', activity);
+    delete data.activities[request.id];
+    data.activityReactions = data.activityReactions.filter(r => r.activity_id !== request.id);
+    data.bookmarks = data.bookmarks.filter(b => b.activity_id !== request.id);
+    for (const comment of Object.values(data.comments)) {
+      if (comment.object_type === 'activity' && comment.object_id === request.id) {
+        delete data.comments[comment.id];
+      }
+    }
+    this.store.save();
+    return { duration: '0ms' };
+  }
+
+  async queryActivities(request: any = {}) {
+    const viewerId = this.userId || request.user_id;
+    const activities = sortByCreatedAt(
+      Object.values(this.data().activities).filter(a => matchesFilter(a, request.filter, activityFields)),
+      request.sort
+    );
+    const page = paginate(activities, request, 25);
+    return {
+      duration: '0ms',
+      activities: page.items.map(a => this.activityResponse(a, viewerId)),
+      next: page.next,
+      prev: page.prev
+    };
+  }
+
+  // ---------- 关注 ----------
+
+  async follow(request: { source: string; target: string; user_id?: string; create_notification_activity?: boolean }) {
+    // 服务端关注不需要 user_id，以 source feed 的所有者作为操作用户
+    const userId = this.actingUser({ user_id: request.user_id || request.source.split(':')[1] });
+    const data = this.data();
+    let follow = data.follows.find(f => f.source === request.source && f.target === request.target);
+    if (!follow) {
+      const timestamp = now();
+      follow = { source: request.source, target: request.target, created_at: timestamp, updated_at: timestamp };
+      this.store.ensureFeed(request.source, userId);
+      this.store.ensureFeed(request.target, request.target.split(':')[1]);
+      data.follows.push(follow);
+      if (request.create_notification_activity) {
+        this.createNotification(userId, request.target.split(':')[1], {
+          trigger: { type: 'follow', text: `${userId} started following you` }
+        });
+      }
+      this.store.save();
+    }
+    return { duration: '0ms', follow: this.followResponse(follow) };
+  }
+
+  async unfollow(request: { source: string; target: string }) {
+    const data = this.data();
+    const follow = data.follows.find(f => f.source === request.source && f.target === request.target);
+    if (!follow) {
+      throw notFound(`follow ${request.source} -> ${request.target}`);
+    }
+    data.follows = data.follows.filter(f => f !== follow);
+    this.store.save();
+    return { duration: '0ms', follow: this.followResponse(follow) };
+  }
+
+  async queryFollows(request: any = {}) {
+    const follows = sortByCreatedAt(
+      this.data().follows.filter(f => matchesFilter(f, request.filter, followFields)),
+      request.sort
+    );
+    const page = paginate(follows, request, 25);
+    return {
+      duration: '0ms',
+      follows: page.items.map(f => this.followResponse(f)),
+      next: page.next,
+      prev: page.prev
+    };
+  }
+
+  // ---------- 活动 reaction ----------
+
+  async addActivityReaction(request: any) {
+    const userId = this.actingUser(request);
+    const data = this.data();
+    const activity = this.getStoredActivity(request.activity_id);
+
+    if (request.enforce_unique) {
+      data.activityReactions = data.activityReactions.filter(r =>
+        !(r.activity_id === activity.id && r.user_id === userId)
+      );
+    } else {
+      data.activityReactions = data.activityReactions.filter(r =>
+        !(r.activity_id === activity.id && r.user_id === userId && r.type === request.type)
+      );
+    }
+
+    const timestamp = now();
+    const reaction: StoredReaction = {
+      type: request.type,
+      user_id: userId,
+      activity_id: activity.id,
+      custom: request.custom || {},
+      created_at: timestamp,
+      updated_at: timestamp
+    };
+    data.activityReactions.push(reaction);
+    if (request.create_notification_activity) {
+      this.createNotification(userId, activity.user_id, {
+        trigger: { type: 'reaction', text: `${userId} reacted with ${request.type} to your activity` },
+        target: { id: activity.id, type: activity.type, text: activity.text, user_id: activity.user_id }
+      });
+    }
+    this.store.save();
+    this.emitActivityEvent('feeds.activity.reaction.added', activity, { reaction: this.reactionResponse(reaction) });
+
+    return {
+      duration: '0ms',
+      activity: this.activityResponse(activity, userId),
+      reaction: this.reactionResponse(reaction)
+    };
+  }
+
+  async deleteActivityReaction(request: { activity_id: string; type: string; user_id?: string }) {
+    const userId = this.actingUser(request);
+    const data = this.data();
+    const reaction = data.activityReactions.find(r =>
+      r.activity_id === request.activity_id && r.user_id === userId && r.type === request.type
+    );
+    if (!reaction) {
+      throw notFound(`reaction ${request.type} on activity ${request.activity_id}`);
+    }
+    data.activityReactions = data.activityReactions.filter(r => r !== reaction);
+    this.store.save();
+    this.emitActivityEvent('feeds.activity.reaction.deleted', this.getStoredActivity(request.activity_id), {
+      reaction: this.reactionResponse(reaction)
+    });
+
+    return {
+      duration: '0ms',
+      activity: this.activityResponse(this.getStoredActivity(request.activity_id), userId),
+      reaction: this.reactionResponse(reaction)
+    };
+  }
+
+  async queryActivityReactions(request: any) {
+    const reactions = sortByCreatedAt(
+      this.data().activityReactions.filter(r =>
+        r.activity_id === request.activity_id && matchesFilter(r, request.filter, reactionFields)
+      ),
+      request.sort
+    );
+    const page = paginate(reactions, request, 25);
+    return {
+      duration: '0ms',
+      reactions: page.items.map(r => this.reactionResponse(r)),
+      next: page.next,
+      prev: page.prev
+    };
+  }
+
+  // ---------- 评论 ----------
+
+  protected emitCommentEvent(type: string, comment: StoredComment) {
+    const activity = comment.object_type === 'activity' ? this.data().activities[comment.object_id] : undefined;
+    if (activity) {
+      this.emitActivityEvent(type, activity, { comment: this.commentResponse(comment) });
+    }
+  }
+
+  async addComment(request: any) {
+    const userId = this.actingUser(request);
+    if (request.object_type === 'activity') {
+      this.getStoredActivity(request.object_id);
+    }
+    if (request.parent_id) {
+      this.getStoredComment(request.parent_id);
+    }
+
+    const timestamp = now();
+    const comment: StoredComment = {
+      id: request.id || crypto.randomUUID(),
+      object_id: request.object_id,
+      object_type: request.object_type,
+      parent_id: request.parent_id,
+      text: request.comment,
+      user_id: userId,
+      custom: request.custom || {},
+      mentioned_user_ids: request.mentioned_user_ids || [],
+      created_at: timestamp,
+      updated_at: timestamp
+    };
+    this.data().comments[comment.id] = comment;
+    const commented = comment.object_type === 'activity' ? this.data().activities[comment.object_id] : undefined;
+    if (request.create_notification_activity && commented) {
+      this.createNotification(userId, commented.user_id, {
+        trigger: { type: 'comment', text: `${userId} commented on your activity` },
+        target: { id: commented.id, type: commented.type, text: commented.text, user_id: commented.user_id }
+      });
+    }
+    this.store.save();
+    this.emitCommentEvent('feeds.comment.added', comment);
+
+    return { duration: '0ms', comment: this.commentResponse(comment, userId) };
+  }
+
+  async getComment(request: { id: string }) {
+    return { duration: '0ms', comment: this.commentResponse(this.getStoredComment(request.id), this.userId) };
+  }
+
+  async updateComment(request: any) {
+    const comment = this.getStoredComment(request.id);
+    if (request.comment !== undefined) comment.text = request.comment;
+    if (request.custom !== undefined) comment.custom = request.custom;
+    if (request.mentioned_user_ids !== undefined) comment.mentioned_user_ids = request.mentioned_user_ids;
+    comment.updated_at = now();
+    comment.edited_at = comment.updated_at;
+    this.store.save();
+    this.emitCommentEvent('feeds.comment.updated', comment);
+    return { duration: '0ms', comment: this.commentResponse(comment, this.userId) };
+  }
+
+  async deleteComment(request: { id: string; hard_delete?: boolean }) {
+    const data = this.data();
+    const comment = this.getStoredComment(request.id);
+
+    // 一并删除所有回复
+    const removed = new Set([comment.id]);
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const other of Object.values(data.comments)) {
+        if (other.parent_id && removed.has(other.parent_id) && !removed.has(other.id)) {
+          removed.add(other.id);
+          changed = true;
+        }
+      }
+    }
+    removed.forEach(id => delete data.comments[id]);
+    data.commentReactions = data.commentReactions.filter(r => !removed.has(r.comment_id!));
+    this.store.save();
+    this.emitCommentEvent('feeds.comment.deleted', comment);
+
+    return { duration: '0ms', comment: this.commentResponse(comment, this.userId) };
+  }
+
+  async queryComments(request: any) {
+    const comments = sortByCreatedAt(
+      Object.values(this.data().comments).filter(c => matchesFilter(c, request.filter, commentFields)),
+      request.sort
+    );
+    const page = paginate(comments, request, 25);
+    return {
+      duration: '0ms',
+      comments: page.items.map(c => this.commentResponse(c, this.userId || request.user_id)),
+      next: page.next,
+      prev: page.prev
+    };
+  }
+
+  /**
+   * 带有嵌套回复的评论：depth 为包含的回复层数，每层最多 repliesLimit 条
+   */
+  protected threadedCommentResponse(comment: StoredComment, depth: number, repliesLimit: number, viewerId?: string): any {
+    const replies = sortByCreatedAt(Object.values(this.data().comments).filter(c => c.parent_id === comment.id), 'first');
+    const response = this.commentResponse(comment, viewerId);
+
+    if (depth <= 0) {
+      return {
+        ...response,
+        replies: [],
+        meta: { depth_truncated: replies.length > 0, has_more: replies.length > 0, remaining: replies.length }
+      };
+    }
+
+    const page = paginate(replies, { limit: repliesLimit }, repliesLimit);
+    return {
+      ...response,
+      replies: page.items.map(reply => this.threadedCommentResponse(reply, depth - 1, repliesLimit, viewerId)),
+      meta: {
+        depth_truncated: false,
+        has_more: !!page.next,
+        remaining: replies.length - page.items.length,
+        next_cursor: page.next
+      }
+    };
+  }
+
+  async getComments(request: any) {
+    const comments = sortByCreatedAt(
+      Object.values(this.data().comments).filter(c =>
+        c.object_id === request.object_id && c.object_type === request.object_type && !c.parent_id
+      ),
+      request.sort || 'first'
+    );
+    const page = paginate(comments, request, 25);
+    const viewerId = this.userId || request.user_id;
+    return {
+      duration: '0ms',
+      comments: page.items.map(c => this.threadedCommentResponse(c, request.depth ?? 0, request.replies_limit ?? 3, viewerId)),
+      next: page.next,
+      prev: page.prev
+    };
+  }
+
+  async getCommentReplies(request: any) {
+    const parent = this.getStoredComment(request.id);
+    const replies = sortByCreatedAt(
+      Object.values(this.data().comments).filter(c => c.parent_id === parent.id),
+      request.sort || 'first'
+    );
+    const page = paginate(replies, request, 25);
+    const viewerId = this.userId || request.user_id;
+    return {
+      duration: '0ms',
+      comments: page.items.map(c => this.threadedCommentResponse(c, request.depth ?? 0, request.replies_limit ?? 3, viewerId)),
+      next: page.next,
+      prev: page.prev
+    };
+  }
+
+  // ---------- 评论 reaction ----------
+
+  async addCommentReaction(request: any) {
+    const userId = this.actingUser(request);
+    const data = this.data();
+    const comment = this.getStoredComment(request.id);
+
+    data.commentReactions = data.commentReactions.filter(r =>
+      !(r.comment_id === comment.id && r.user_id === userId && (request.enforce_unique || r.type === request.type))
+    );
+
+    const timestamp = now();
+    const reaction: StoredReaction = {
+      type: request.type,
+      user_id: userId,
+      comment_id: comment.id,
+      custom: request.custom || {},
+      created_at: timestamp,
+      updated_at: timestamp
+    };
+    data.commentReactions.push(reaction);
+    if (request.create_notification_activity) {
+      this.createNotification(userId, comment.user_id, {
+        trigger: { type: 'comment_reaction', text: `${userId} reacted with ${request.type} to your comment` },
+        target: { id: comment.id, type: 'comment', text: comment.text, user_id: comment.user_id }
+      });
+    }
+    this.store.save();
+
+    return {
+      duration: '0ms',
+      comment: this.commentResponse(comment, userId),
+      reaction: this.reactionResponse(reaction)
+    };
+  }
+
+  async deleteCommentReaction(request: { id: string; type: string; user_id?: string }) {
+    const userId = this.actingUser(request);
+    const data = this.data();
+    const reaction = data.commentReactions.find(r =>
+      r.comment_id === request.id && r.user_id === userId && r.type === request.type
+    );
+    if (!reaction) {
+      throw notFound(`reaction ${request.type} on comment ${request.id}`);
+    }
+    data.commentReactions = data.commentReactions.filter(r => r !== reaction);
+    this.store.save();
+
+    return {
+      duration: '0ms',
+      comment: this.commentResponse(this.getStoredComment(request.id), userId),
+      reaction: this.reactionResponse(reaction)
+    };
+  }
+
+  async queryCommentReactions(request: any) {
+    const reactions = sortByCreatedAt(
+      this.data().commentReactions.filter(r =>
+        r.comment_id === request.id && matchesFilter(r, request.filter, reactionFields)
+      ),
+      request.sort
+    );
+    const page = paginate(reactions, request, 25);
+    return {
+      duration: '0ms',
+      reactions: page.items.map(r => this.reactionResponse(r)),
+      next: page.next,
+      prev: page.prev
+    };
+  }
+
+  // ---------- 收藏 ----------
+
+  protected bookmarkResponse(bookmark: StoredBookmark) {
+    const activity = this.data().activities[bookmark.activity_id];
+    return {
+      ...bookmark,
+      user: this.userResponse(bookmark.user_id),
+      activity: activity ? this.activityResponse(activity, bookmark.user_id) : undefined,
+      folder: bookmark.folder_id ? { id: bookmark.folder_id, name: bookmark.folder_id } : undefined
+    };
+  }
+
+  async addBookmark(request: any) {
+    const userId = this.actingUser(request);
+    const data = this.data();
+    this.getStoredActivity(request.activity_id);
+
+    const existing = data.bookmarks.find(b =>
+      b.activity_id === request.activity_id && b.user_id === userId && b.folder_id === request.folder_id
+    );
+    if (existing) {
+      throw new Error(`Stream error code 4: bookmark already exists (400)`);
+    }
+
+    const timestamp = now();
+    const bookmark: StoredBookmark = {
+      activity_id: request.activity_id,
+      user_id: userId,
+      folder_id: request.folder_id,
+      custom: request.custom || {},
+      created_at: timestamp,
+      updated_at: timestamp
+    };
+    data.bookmarks.push(bookmark);
+    this.store.save();
+
+    return { duration: '0ms', bookmark: this.bookmarkResponse(bookmark) };
+  }
+
+  async deleteBookmark(request: { activity_id: string; folder_id?: string; user_id?: string }) {
+    const userId = this.actingUser(request);
+    const data = this.data();
+    const bookmark = data.bookmarks.find(b =>
+      b.activity_id === request.activity_id && b.user_id === userId &&
+      (!request.folder_id || b.folder_id === request.folder_id)
+    );
+    if (!bookmark) {
+      throw notFound(`bookmark on activity ${request.activity_id}`);
+    }
+    data.bookmarks = data.bookmarks.filter(b => b !== bookmark);
+    this.store.save();
+
+    return { duration: '0ms', bookmark: this.bookmarkResponse(bookmark) };
+  }
+
+  async queryBookmarks(request: any = {}) {
+    const bookmarks = sortByCreatedAt(
+      this.data().bookmarks.filter(b => matchesFilter(b, request.filter, bookmarkFields)),
+      request.sort
+    );
+    const page = paginate(bookmarks, request, 25);
+    return {
+      duration: '0ms',
+      bookmarks: page.items.map(b => this.bookmarkResponse(b)),
+      next: page.next,
+      prev: page.prev
+    };
+  }
+}
+
+/**
+ * 本地 feed 对象，对应 FeedsClient.feed(group, id)
+ */
+export class LocalFeed {
+  private api: LocalFeedsClient;
+  readonly group: string;
+  readonly id: string;
+
+  constructor(api: LocalFeedsClient, group: string, id: string) {
+    this.api = api;
+    this.group = group;
+    this.id = id;
+  }
+
+  get feed(): string {
+    return `${this.group}:${this.id}`;
+  }
+
+  async getOrCreate(request: any = {}) {
+    return this.api.readFeedForClient(this.feed, request);
+  }
+
+  async addActivity(request: any) {
+    return this.api.addActivity({ ...request, feeds: [this.feed] });
+  }
+}
+
+/**
+ * 本地 FeedsClient，每个实例对应一个连接的用户
+ */
+export class LocalFeedsClient extends LocalFeedsApi {
+  constructor(store: LocalStreamStore) {
+    super(store);
+  }
+
+  async connectUser(user: { id: string; name?: string; image?: string }, _token?: unknown): Promise<void> {
+    if (this.userId) {
+      throw new Error(`Can't connect a new user, call "disconnectUser" first`);
+    }
+    const stored = this.store.ensureUser(user.id);
+    if (stored.deleted_at) {
+      throw new Error(`User '${user.id}' was deleted`);
+    }
+    if (user.name) stored.name = user.name;
+    if (user.image) stored.image = user.image;
+    this.userId = user.id;
+    this.store.save();
+  }
+
+  async disconnectUser(): Promise<void> {
+    this.userId = undefined;
+  }
+
+  feed(group: string, id: string): LocalFeed {
+    return new LocalFeed(this, group, id);
+  }
+
+  /**
+   * 订阅实时事件
+   * @param eventName 事件类型，all 表示所有事件
+   * @returns 取消订阅函数
+   */
+  on(eventName: string, handler: (event: any) => void): () => void {
+    const listener = (event: any) => {
+      if (this.userId && (eventName === 'all' || eventName === event.type)) {
+        handler(event);
+      }
+    };
+    this.store.events.on('event', listener);
+    return () => {
+      this.store.events.off('event', listener);
+    };
+  }
+
+  readFeedForClient(fid: string, request: any) {
+    if (!this.userId) {
+      throw new Error('本地 Stream: 请先调用 connectUser');
+    }
+    return this.readFeed(fid, request);
+  }
+}
+
+/**
+ * 本地 StreamClient（服务端），实现用户管理和 feeds 子集
+ */
+export class LocalStreamClient {
+  private store: LocalStreamStore;
+  readonly feeds: LocalServerFeedsApi;
+
+  constructor(store: LocalStreamStore) {
+    this.store = store;
+    this.feeds = new LocalServerFeedsApi(store);
+  }
+
+  async queryUsers(request: { payload?: { filter_conditions?: Record<string, any>; sort?: any[]; limit?: number; offset?: number } }) {
+    const payload = request.payload || {};
+    let users = Object.values(this.store.data.users).filter(user =>
+      !user.deleted_at && matchesFilter(user, payload.filter_conditions, userFields)
+    );
+
+    const sort = payload.sort?.[0];
+    if (sort) {
+      const direction = sort.direction ?? 1;
+      users = users.sort((a: any, b: any) => direction * String(a[sort.field] ?? '').localeCompare(String(b[sort.field] ?? '')));
+    }
+
+    const offset = payload.offset || 0;
+    const limit = payload.limit || 30;
+    return { duration: '0ms', users: users.slice(offset, offset + limit) };
+  }
+
+  async upsertUsers(users: Array<{ id: string; name?: string; image?: string; role?: string; custom?: Record<string, any> }>) {
+    const result: Record<string, StoredUser> = {};
+    for (const user of users) {
+      const stored = this.store.ensureUser(user.id);
+      if (user.name !== undefined) stored.name = user.name;
+      if (user.image !== undefined) stored.image = user.image;
+      if (user.role !== undefined) stored.role = user.role;
+      if (user.custom !== undefined) stored.custom = user.custom;
+      delete stored.deleted_at;
+      stored.updated_at = now();
+      result[user.id] = stored;
+    }
+    this.store.save();
+    return { duration: '0ms', users: result };
+  }
+
+  async updateUsersPartial(request: { users: Array<{ id: string; set?: Record<string, any>; unset?: string[] }> }) {
+    const result: Record<string, StoredUser> = {};
+    for (const update of request.users) {
+      const stored = this.store.data.users[update.id];
+      if (!stored) {
+        throw notFound(`user ${update.id}`);
+      }
+      const target = stored as any;
+      for (const [key, value] of Object.entries(update.set || {})) {
+        if (key === 'id') continue;
+        if (key.startsWith('custom.')) {
+          stored.custom[key.slice('custom.'.length)] = value;
+        } else {
+          target[key] = value;
+        }
+      }
+      for (const key of update.unset || []) {
+        if (key.startsWith('custom.')) {
+          delete stored.custom[key.slice('custom.'.length)];
+        } else {
+          delete target[key];
+        }
+      }
+      stored.updated_at = now();
+      result[update.id] = stored;
+    }
+    this.store.save();
+    return { duration: '0ms', users: result };
+  }
+
+  async deleteUsers(request: { user_ids: string[]; user?: 'soft' | 'hard' }) {
+    for (const userId of request.user_ids) {
+      if (request.user === 'hard') {
+        delete this.store.data.users[userId];
+      } else if (this.store.data.users[userId]) {
+        this.store.data.users[userId].deleted_at = now();
+      }
+    }
+    this.store.save();
+    return { duration: '0ms', task_id: crypto.randomUUID() };
+  }
+}
+
+/**
+ * 服务端 feeds API：没有已连接用户，需要用户的操作从请求中的 user_id 读取
+ */
+export class LocalServerFeedsApi extends LocalFeedsApi {
+  feed(group: string, id: string) {
+    const fid = `${group}:${id}`;
+    return {
+      feed: fid,
+      getOrCreate: async (request: any = {}) => this.readFeed(fid, request),
+      addActivity: async (request: any) => this.addActivity({ ...request, feeds: [fid] })
+    };
+  }
+}
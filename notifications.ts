@@ -0,0 +1,81 @@
+import { AggregatedActivityResponse, NotificationStatusResponse } from '@stream-io/feeds-client';
+
+/**
+ * 通知 feed（notification:<userId>）
+ *
+ * 点赞等互动、评论、关注和提及时设置 create_notification_activity，由 Stream 在被操作用户的通知 feed 中创建通知活动，
+ * 并按分组聚合（同一天对同一对象的同类操作为一组）。这里把聚合分组整理成“A 和其他 3 人回应了你的帖子”这样的条目。
+ */
+
+export const NOTIFICATION_FEED_GROUP = 'notification';
+
+/**
+ * 一组聚合后的通知
+ */
+export interface NotificationEntry {
+  /** 聚合分组ID，标记已读时使用 */
+  group: string;
+  /** 通知类型：reaction、comment、follow、mention、comment_reaction */
+  type: string;
+  /** 最近操作的用户（最多 3 个） */
+  actors: string[];
+  /** 操作的用户总数 */
+  actorCount: number;
+  activityCount: number;
+  /** 被操作的活动或评论 */
+  target: { id: string; type?: string; text?: string } | null;
+  message: string;
+  isRead: boolean;
+  isSeen: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 互动有多种类型（点赞、喜爱、大笑等），通知中统一称为“回应”
+const NOTIFICATION_VERBS: Record<string, string> = {
+  reaction: '回应了你的帖子',
+  comment: '评论了你的帖子',
+  follow: '关注了你',
+  mention: '在帖子中提到了你',
+  comment_reaction: '回应了你的评论'
+};
+
+// 条目中列出的用户数量
+const MAX_ACTORS = 3;
+
+/**
+ * 生成通知文案，如“alice 和其他 3 人回应了你的帖子”
+ */
+export function describeNotification(type: string, actors: string[], actorCount: number): string {
+  const verb = NOTIFICATION_VERBS[type] || '与你互动';
+  const first = actors[0] || '有人';
+  const others = actorCount - 1;
+  return others > 0 ? `${first} 和其他 ${others} 人${verb}` : `${first} ${verb}`;
+}
+
+/**
+ * 把 Stream 返回的聚合分组整理为通知条目
+ */
+export function summarizeNotificationGroup(
+  aggregated: AggregatedActivityResponse,
+  status?: NotificationStatusResponse
+): NotificationEntry {
+  const latest = aggregated.activities[0];
+  const type = latest?.notification_context?.trigger?.type || latest?.type || 'unknown';
+  const actors = [...new Set(aggregated.activities.map(activity => activity.user?.id).filter(Boolean) as string[])];
+  const target = latest?.notification_context?.target;
+
+  return {
+    group: aggregated.group,
+    type,
+    actors: actors.slice(0, MAX_ACTORS),
+    actorCount: aggregated.user_count || actors.length,
+    activityCount: aggregated.activity_count,
+    target: target ? { id: target.id, type: target.type, text: target.text } : null,
+    message: describeNotification(type, actors, aggregated.user_count || actors.length),
+    isRead: !!status?.read_activities?.includes(aggregated.group),
+    isSeen: !!status?.seen_activities?.includes(aggregated.group),
+    createdAt: new Date(aggregated.created_at).toISOString(),
+    updatedAt: new Date(aggregated.updated_at).toISOString()
+  };
+}
@@ -0,0 +1,167 @@
+import { StreamClient } from '@stream-io/node-sdk';
+import { PushCategoryRegistry } from './globalPush';
+
+/**
+ * 用户兴趣偏好，保存在 Stream 用户的 custom.preferences 中
+ */
+export interface UserPreferences {
+  /** 关注的分类，这些分类的推送排在前面 */
+  followedCategories: string[];
+  /** 屏蔽的分类 */
+  mutedCategories: string[];
+  /** 屏蔽的活动类型（如 marketing_push） */
+  mutedTypes: string[];
+  /** 语言（如 zh-CN），设置后隐藏标记了其他语言（custom.language）的推送 */
+  language: string | null;
+}
+
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * 从用户的 custom 数据中读取偏好，缺少的字段使用默认值
+ */
+export function readPreferences(custom: Record<string, any> | undefined): UserPreferences {
+  const stored = custom?.preferences || {};
+  return {
+    followedCategories: isStringArray(stored.followedCategories) ? stored.followedCategories : [],
+    mutedCategories: isStringArray(stored.mutedCategories) ? stored.mutedCategories : [],
+    mutedTypes: isStringArray(stored.mutedTypes) ? stored.mutedTypes : [],
+    language: typeof stored.language === 'string' ? stored.language : null
+  };
+}
+
+/**
+ * 校验要修改的偏好（只校验提供了的字段）
+ * @returns 错误信息，合法时返回 null
+ */
+export function validatePreferences(changes: Record<string, unknown>, registry: PushCategoryRegistry): string | null {
+  for (const field of ['followedCategories', 'mutedCategories', 'mutedTypes'] as const) {
+    if (changes[field] !== undefined && !isStringArray(changes[field])) {
+      return `${field} 必须是字符串数组`;
+    }
+  }
+
+  for (const field of ['followedCategories', 'mutedCategories'] as const) {
+    const unknown = ((changes[field] as string[] | undefined) || []).filter(category => !registry.has(category));
+    if (unknown.length > 0) {
+      return `${field} 包含未注册的分类: ${unknown.join(', ')}`;
+    }
+  }
+
+  if (changes.language !== undefined && changes.language !== null) {
+    if (typeof changes.language !== 'string' || !LANGUAGE_PATTERN.test(changes.language)) {
+      return 'language 必须是语言代码，如 zh-CN、en';
+    }
+  }
+  return null;
+}
+
+/**
+ * 合并偏好修改（数组字段整体替换），同一分类不能同时关注和屏蔽
+ * @throws 同一分类同时关注和屏蔽时抛出错误
+ */
+export function mergePreferences(current: UserPreferences, changes: Partial<UserPreferences>): UserPreferences {
+  const merged: UserPreferences = {
+    followedCategories: [...new Set(changes.followedCategories ?? current.followedCategories)],
+    mutedCategories: [...new Set(changes.mutedCategories ?? current.mutedCategories)],
+    mutedTypes: [...new Set(changes.mutedTypes ?? current.mutedTypes)],
+    language: changes.language !== undefined ? changes.language : current.language
+  };
+
+  const conflicts = merged.followedCategories.filter(category => merged.mutedCategories.includes(category));
+  if (conflicts.length > 0) {
+    throw new Error(`分类不能同时关注和屏蔽: ${conflicts.join(', ')}`);
+  }
+  return merged;
+}
+
+/**
+ * 推送是否符合偏好：不是屏蔽的分类、类型，也不是其他语言的推送
+ */
+export function matchesPreferences(activity: { type?: string; custom?: Record<string, any> }, preferences: UserPreferences): boolean {
+  return !preferences.mutedCategories.includes(activity.custom?.category) &&
+    !preferences.mutedTypes.includes(activity.type as string) &&
+    (!preferences.language || !activity.custom?.language || activity.custom.language === preferences.language);
+}
+
+/**
+ * 按偏好过滤推送：去掉屏蔽的分类、类型和其他语言的推送，关注分类的推送排在前面（其余保持原有顺序）
+ */
+export function applyPreferences<T extends { type?: string; custom?: Record<string, any> }>(
+  activities: T[],
+  preferences: UserPreferences
+): T[] {
+  const visible = activities.filter(activity => matchesPreferences(activity, preferences));
+
+  const followed = visible.filter(activity => preferences.followedCategories.includes(activity.custom?.category));
+  const others = visible.filter(activity => !preferences.followedCategories.includes(activity.custom?.category));
+  return [...followed, ...others];
+}
+
+/**
+ * 用户偏好存储：读写 Stream 用户的 custom.preferences，并在进程内短暂缓存
+ */
+export class UserPreferencesStore {
+  private streamClient: StreamClient;
+  private cacheTtlMs: number;
+  private cache = new Map<string, { preferences: UserPreferences; expiresAt: number }>();
+
+  /**
+   * @param streamClient 服务端 Stream 客户端
+   * @param cacheTtlMs 缓存时间（毫秒），默认为60秒
+   */
+  constructor(streamClient: StreamClient, cacheTtlMs: number = 60000) {
+    this.streamClient = streamClient;
+    this.cacheTtlMs = cacheTtlMs;
+  }
+
+  async get(userId: string): Promise<UserPreferences> {
+    const cached = this.cache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.preferences;
+    }
+
+    const preferences = readPreferences(await this.getUserCustom(userId));
+    this.cache.set(userId, { preferences, expiresAt: Date.now() + this.cacheTtlMs });
+    return preferences;
+  }
+
+  /**
+   * 修改偏好：与已保存的偏好合并，保留 custom 中的其他字段
+   * @throws 同一分类同时关注和屏蔽时抛出错误
+   */
+  async update(userId: string, changes: Partial<UserPreferences>): Promise<UserPreferences> {
+    const custom = await this.getUserCustom(userId);
+    const preferences = mergePreferences(readPreferences(custom), changes);
+
+    await this.streamClient.updateUsersPartial({
+      users: [{
+        id: userId,
+        set: {
+          custom: { ...custom, preferences }
+        }
+      }]
+    });
+
+    this.cache.set(userId, { preferences, expiresAt: Date.now() + this.cacheTtlMs });
+    return preferences;
+  }
+
+  private async getUserCustom(userId: string): Promise<Record<string, any>> {
+    const response = await this.streamClient.queryUsers({
+      payload: {
+        filter_conditions: { id: { $eq: userId } },
+        limit: 1
+      }
+    });
+    const user = response.users?.[0];
+    if (!user) {
+      throw new Error(`用户不存在: ${userId}`);
+    }
+    return user.custom || {};
+  }
+}
@@ -0,0 +1,146 @@
+import { StreamClient } from '@stream-io/node-sdk';
+import { getPushExpiry, isPushExpired } from './globalPush';
+
+export interface ExpiredPush {
+  id: string;
+  text?: string;
+  type: string;
+  feeds: string[];
+  expiresAt: string;
+}
+
+export interface SweepReport {
+  /** 只报告不删除 */
+  dryRun: boolean;
+  checkedAt: string;
+  /** 已过期的推送（dryRun 时为将要删除的推送） */
+  expired: ExpiredPush[];
+  deleted: number;
+  failed: Array<{ id: string; error: string }>;
+}
+
+export interface PushExpirySweeperOptions {
+  /** 后台清理间隔（毫秒），默认为5分钟 */
+  intervalMs?: number;
+  /** 后台清理只报告不删除 */
+  dryRun?: boolean;
+  /** 每次查询的活动数量 */
+  pageSize?: number;
+}
+
+/**
+ * 过期推送清理器
+ *
+ * foryou 读取时已经过滤掉过期推送，清理器定期把它们从 Stream 中删除。
+ * dryRun 模式只生成报告，不删除任何内容。
+ */
+export class PushExpirySweeper {
+  private streamClient: StreamClient;
+  private intervalMs: number;
+  private dryRun: boolean;
+  private pageSize: number;
+  private timer?: NodeJS.Timeout;
+  // 正在进行的清理，多次调用按顺序执行
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(streamClient: StreamClient, options: PushExpirySweeperOptions = {}) {
+    this.streamClient = streamClient;
+    this.intervalMs = options.intervalMs ?? 5 * 60 * 1000;
+    this.dryRun = options.dryRun ?? false;
+    this.pageSize = options.pageSize ?? 100;
+  }
+
+  /**
+   * 开始后台清理（intervalMs 为 0 时不启动）
+   */
+  start(): void {
+    if (this.timer || this.intervalMs <= 0) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.sweep({ dryRun: this.dryRun }).catch(error => {
+        console.error('❌ 清理过期推送失败:', error);
+      });
+    }, this.intervalMs);
+    // 清理定时器不应阻止进程退出
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * 查找并删除已过期的推送（同一时间只运行一次清理）
+   * @param options.dryRun 只报告不删除
+   */
+  sweep(options: { dryRun?: boolean } = {}): Promise<SweepReport> {
+    const report = this.queue.catch(() => undefined).then(() => this.doSweep(options.dryRun ?? false));
+    this.queue = report;
+    return report;
+  }
+
+  private async doSweep(dryRun: boolean): Promise<SweepReport> {
+    const now = new Date();
+    const expired = await this.findExpired(now);
+    const report: SweepReport = {
+      dryRun,
+      checkedAt: now.toISOString(),
+      expired,
+      deleted: 0,
+      failed: []
+    };
+
+    if (!dryRun) {
+      for (const push of expired) {
+        try {
+          await this.streamClient.feeds.deleteActivity({ id: push.id, hard_delete: true });
+          report.deleted++;
+        } catch (error) {
+          report.failed.push({ id: push.id, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+
+    if (expired.length > 0) {
+      console.log(dryRun
+        ? `🧹 [dry-run] 发现 ${expired.length} 条过期推送`
+        : `🧹 已删除 ${report.deleted} 条过期推送，失败 ${report.failed.length} 条`);
+    }
+    return report;
+  }
+
+  /**
+   * 分页查询已过期的活动（先全部查出再删除，避免删除影响分页）
+   */
+  private async findExpired(now: Date): Promise<ExpiredPush[]> {
+    const expired: ExpiredPush[] = [];
+    let next: string | undefined;
+
+    do {
+      const response = await this.streamClient.feeds.queryActivities({
+        filter: { expires_at: { $lte: now.toISOString() } },
+        limit: this.pageSize,
+        ...(next ? { next } : {})
+      });
+
+      for (const activity of response.activities || []) {
+        if (isPushExpired(activity, now)) {
+          expired.push({
+            id: activity.id,
+            text: activity.text,
+            type: activity.type,
+            feeds: activity.feeds,
+            expiresAt: getPushExpiry(activity)!.toISOString()
+          });
+        }
+      }
+      next = response.next;
+    } while (next);
+
+    return expired;
+  }
+}
@@ -0,0 +1,335 @@
+import crypto from 'crypto';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+import { CronSchedule, validateCronExpression } from './cron';
+import { PushContent } from './globalPush';
+
+export type ScheduledPushStatus = 'pending' | 'completed' | 'cancelled' | 'failed';
+
+/**
+ * 推送对象：self 只发布到创建者自己的 foryou feed，all 广播给所有用户（仅管理员）
+ */
+export type PushAudience = 'self' | 'all';
+
+export interface ScheduledPush {
+  id: string;
+  createdBy: string;
+  content: PushContent;
+  audience: PushAudience;
+  /** 一次性推送的发布时间 */
+  publishAt: string | null;
+  /** 周期推送的 cron 表达式 */
+  cron: string | null;
+  /** 下一次发布时间，已完成或已取消时为 null */
+  nextRunAt: string | null;
+  status: ScheduledPushStatus;
+  runCount: number;
+  lastRunAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScheduledPushInput {
+  content: PushContent;
+  audience?: PushAudience;
+  publishAt?: string | null;
+  cron?: string | null;
+}
+
+export interface ScheduledPushChanges {
+  content?: Partial<PushContent>;
+  publishAt?: string | null;
+  cron?: string | null;
+}
+
+export interface PushSchedulerOptions {
+  /** 最长检查间隔（毫秒），默认为60秒 */
+  maxSleepMs?: number;
+}
+
+/**
+ * 定时推送存储，配置文件路径时持久化到 JSON 文件
+ */
+export class ScheduledPushStore {
+  private pushes: Record<string, ScheduledPush>;
+  private filePath?: string;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+    this.pushes = filePath ? readJsonFile<Record<string, ScheduledPush>>(filePath, {}) : {};
+  }
+
+  get(id: string): ScheduledPush | null {
+    return this.pushes[id] || null;
+  }
+
+  list(): ScheduledPush[] {
+    return Object.values(this.pushes).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  save(push: ScheduledPush): void {
+    push.updatedAt = new Date().toISOString();
+    this.pushes[push.id] = push;
+    if (this.filePath) {
+      writeJsonFile(this.filePath, this.pushes);
+    }
+  }
+}
+
+/**
+ * 校验发布时间和 cron 表达式（二者必须且只能提供一个），
+ * 带过期时间的推送只能一次性发布，且必须在发布时间之后过期
+ * @returns 错误信息，合法时返回 null
+ */
+export function validateSchedule(
+  schedule: { publishAt?: unknown; cron?: unknown; expiresAt?: unknown },
+  now: Date = new Date()
+): string | null {
+  const hasPublishAt = schedule.publishAt !== undefined && schedule.publishAt !== null;
+  const hasCron = schedule.cron !== undefined && schedule.cron !== null;
+
+  if (hasPublishAt === hasCron) {
+    return '需要提供 publishAt 或 cron 其中之一';
+  }
+
+  if (hasPublishAt) {
+    const time = typeof schedule.publishAt === 'string' ? new Date(schedule.publishAt).getTime() : NaN;
+    if (isNaN(time)) {
+      return 'publishAt 必须是 ISO 8601 格式的时间';
+    }
+    if (time <= now.getTime()) {
+      return 'publishAt 必须是将来的时间';
+    }
+    if (schedule.expiresAt && new Date(schedule.expiresAt as string).getTime() <= time) {
+      return 'expiresAt 必须晚于 publishAt';
+    }
+    return null;
+  }
+
+  if (schedule.expiresAt) {
+    return '周期推送不支持 expiresAt';
+  }
+
+  if (typeof schedule.cron !== 'string') {
+    return 'cron 必须是字符串';
+  }
+  const invalidCron = validateCronExpression(schedule.cron);
+  if (invalidCron) {
+    return invalidCron;
+  }
+  if (!new CronSchedule(schedule.cron).next(now)) {
+    return `cron 表达式不会再触发: ${schedule.cron}`;
+  }
+  return null;
+}
+
+/**
+ * 定时推送调度器
+ *
+ * 定时推送保存在存储中，服务重启后继续调度。
+ * 停机期间错过的一次性推送会在启动后立即发布；周期推送只补发一次，然后从当前时间计算下一次。
+ */
+export class PushScheduler {
+  private store: ScheduledPushStore;
+  private publish: (push: ScheduledPush) => Promise<void>;
+  private maxSleepMs: number;
+  private timer?: NodeJS.Timeout;
+  private running = new Set<string>();
+  private started = false;
+
+  /**
+   * @param store 定时推送存储
+   * @param publish 发布推送的函数
+   */
+  constructor(
+    store: ScheduledPushStore,
+    publish: (push: ScheduledPush) => Promise<void>,
+    options: PushSchedulerOptions = {}
+  ) {
+    this.store = store;
+    this.publish = publish;
+    this.maxSleepMs = options.maxSleepMs ?? 60000;
+  }
+
+  /**
+   * 创建定时推送（调用前应先用 validateSchedule 校验）
+   */
+  create(createdBy: string, input: ScheduledPushInput): ScheduledPush {
+    const now = new Date().toISOString();
+    const push: ScheduledPush = {
+      id: crypto.randomUUID(),
+      createdBy,
+      content: input.content,
+      audience: input.audience || 'self',
+      publishAt: input.publishAt ?? null,
+      cron: input.cron ?? null,
+      nextRunAt: null,
+      status: 'pending',
+      runCount: 0,
+      lastRunAt: null,
+      lastError: null,
+      createdAt: now,
+      updatedAt: now
+    };
+    push.nextRunAt = this.computeNextRun(push, new Date());
+    this.store.save(push);
+    this.schedule();
+    return push;
+  }
+
+  /**
+   * 修改待发布的推送（内容或时间）
+   * @throws 推送不是待发布状态或正在发布时抛出错误
+   */
+  update(id: string, changes: ScheduledPushChanges): ScheduledPush | null {
+    const push = this.store.get(id);
+    if (!push) {
+      return null;
+    }
+    this.assertEditable(push, '修改');
+
+    if (changes.content) {
+      push.content = { ...push.content, ...changes.content };
+    }
+    if (changes.publishAt !== undefined || changes.cron !== undefined) {
+      push.publishAt = changes.publishAt ?? null;
+      push.cron = changes.cron ?? null;
+      push.nextRunAt = this.computeNextRun(push, new Date());
+    }
+    this.store.save(push);
+    this.schedule();
+    return push;
+  }
+
+  /**
+   * 取消待发布的推送
+   * @throws 推送不是待发布状态或正在发布时抛出错误
+   */
+  cancel(id: string): ScheduledPush | null {
+    const push = this.store.get(id);
+    if (!push) {
+      return null;
+    }
+    this.assertEditable(push, '取消');
+
+    push.status = 'cancelled';
+    push.nextRunAt = null;
+    this.store.save(push);
+    this.schedule();
+    return push;
+  }
+
+  get(id: string): ScheduledPush | null {
+    return this.store.get(id);
+  }
+
+  list(filter: { createdBy?: string; status?: ScheduledPushStatus } = {}): ScheduledPush[] {
+    return this.store.list().filter(push =>
+      (!filter.createdBy || push.createdBy === filter.createdBy) &&
+      (!filter.status || push.status === filter.status)
+    );
+  }
+
+  /**
+   * 开始调度（立即发布停机期间到期的推送）
+   */
+  start(): void {
+    this.started = true;
+    this.schedule();
+  }
+
+  stop(): void {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * 发布所有已到期的推送
+   */
+  async runDue(now: Date = new Date()): Promise<void> {
+    const due = this.store.list().filter(push =>
+      push.status === 'pending' &&
+      push.nextRunAt !== null &&
+      new Date(push.nextRunAt).getTime() <= now.getTime() &&
+      !this.running.has(push.id)
+    );
+
+    await Promise.all(due.map(push => this.runPush(push)));
+  }
+
+  private async runPush(push: ScheduledPush): Promise<void> {
+    this.running.add(push.id);
+    try {
+      await this.publish(push);
+      push.runCount++;
+      push.lastError = null;
+      console.log(`⏰ 定时推送 ${push.id} 已发布: ${push.content.text}`);
+    } catch (error) {
+      console.error(`❌ 定时推送 ${push.id} 发布失败:`, error);
+      push.lastError = error instanceof Error ? error.message : String(error);
+      if (!push.cron) {
+        push.status = 'failed';
+      }
+    }
+
+    const now = new Date();
+    push.lastRunAt = now.toISOString();
+    if (push.status === 'pending') {
+      push.nextRunAt = push.cron ? this.computeNextRun(push, now) : null;
+      if (!push.nextRunAt) {
+        push.status = 'completed';
+      }
+    } else {
+      push.nextRunAt = null;
+    }
+    this.store.save(push);
+    this.running.delete(push.id);
+  }
+
+  private assertEditable(push: ScheduledPush, action: string): void {
+    if (push.status !== 'pending') {
+      throw new Error(`只能${action}待发布的推送，当前状态为 ${push.status}`);
+    }
+    if (this.running.has(push.id)) {
+      throw new Error(`推送正在发布中，暂时不能${action}`);
+    }
+  }
+
+  private computeNextRun(push: ScheduledPush, now: Date): string | null {
+    if (push.cron) {
+      return new CronSchedule(push.cron).next(now)?.toISOString() ?? null;
+    }
+    return push.publishAt;
+  }
+
+  /**
+   * 设置到下一个到期时间的定时器（最长 maxSleepMs）
+   */
+  private schedule(): void {
+    if (!this.started) {
+      return;
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    const nextTimes = this.store.list()
+      .filter(push => push.status === 'pending' && push.nextRunAt)
+      .map(push => new Date(push.nextRunAt!).getTime());
+    const delay = nextTimes.length > 0
+      ? Math.min(Math.max(0, Math.min(...nextTimes) - Date.now()), this.maxSleepMs)
+      : this.maxSleepMs;
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.runDue()
+        .catch(error => console.error('❌ 定时推送调度失败:', error))
+        .finally(() => this.schedule());
+    }, delay);
+    // 调度定时器不应阻止进程退出
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * foryou feed 排序
+ *
+ * 从 Stream 取出一批候选活动（按时间倒序），计算各项信号后由排序策略打分重新排序。
+ * 策略通过 RankingRegistry 注册，按名称（?rank=）选择。
+ */
+
+export type RankingSignalName = 'recency' | 'likes' | 'comments' | 'followsAuthor' | 'priority' | 'seen';
+
+/**
+ * 排序信号，取值都在 0 到 1 之间
+ */
+export type RankingSignals = Record<RankingSignalName, number>;
+
+export type RankingWeights = Partial<Record<RankingSignalName, number>>;
+
+export interface ScoreBreakdown {
+  /** 排序策略名称 */
+  strategy: string;
+  score: number;
+  signals: RankingSignals;
+  /** 每个信号对得分的贡献（信号值 × 权重） */
+  contributions: Partial<Record<RankingSignalName, number>>;
+}
+
+export interface RankingContext {
+  viewerId: string;
+  now: Date;
+  /** 当前用户关注的用户 */
+  followedUserIds: Set<string>;
+  /** 当前用户已经看过的活动 */
+  seenActivityIds: Set<string>;
+}
+
+export interface RankingStrategy {
+  name: string;
+  description: string;
+  /**
+   * 根据信号打分，得分越高越靠前
+   */
+  score(signals: RankingSignals): { score: number; contributions: Partial<Record<RankingSignalName, number>> };
+}
+
+export interface RankableActivity {
+  id: string;
+  created_at: string | Date;
+  user?: { id: string };
+  custom?: Record<string, any>;
+  reaction_groups?: Record<string, { count: number }>;
+  comment_count?: number;
+}
+
+// 新鲜度的半衰期：发布 12 小时后新鲜度减半
+const RECENCY_HALF_LIFE_HOURS = 12;
+// 点赞、评论数达到这个数量时信号为 1
+const ENGAGEMENT_SATURATION = 50;
+
+const PRIORITY_SIGNAL: Record<string, number> = {
+  high: 1,
+  medium: 0.5,
+  low: 0
+};
+
+function engagementSignal(count: number): number {
+  return Math.min(1, Math.log1p(count) / Math.log1p(ENGAGEMENT_SATURATION));
+}
+
+/**
+ * 计算活动的排序信号
+ */
+export function computeSignals(activity: RankableActivity, context: RankingContext): RankingSignals {
+  const ageHours = Math.max(0, context.now.getTime() - new Date(activity.created_at).getTime()) / 3600000;
+
+  return {
+    recency: Math.pow(0.5, ageHours / RECENCY_HALF_LIFE_HOURS),
+    likes: engagementSignal(activity.reaction_groups?.like?.count || 0),
+    comments: engagementSignal(activity.comment_count || 0),
+    followsAuthor: activity.user && context.followedUserIds.has(activity.user.id) ? 1 : 0,
+    priority: PRIORITY_SIGNAL[activity.custom?.priority] ?? PRIORITY_SIGNAL.medium,
+    seen: context.seenActivityIds.has(activity.id) ? 1 : 0
+  };
+}
+
+/**
+ * 创建按权重线性加权的排序策略
+ */
+export function createWeightedStrategy(name: string, description: string, weights: RankingWeights): RankingStrategy {
+  return {
+    name,
+    description,
+    score(signals) {
+      const contributions: Partial<Record<RankingSignalName, number>> = {};
+      let score = 0;
+      for (const [signal, weight] of Object.entries(weights) as Array<[RankingSignalName, number]>) {
+        contributions[signal] = signals[signal] * weight;
+        score += contributions[signal]!;
+      }
+      return { score, contributions };
+    }
+  };
+}
+
+/**
+ * 排序策略注册表
+ */
+export class RankingRegistry {
+  private strategies = new Map<string, RankingStrategy>();
+
+  register(strategy: RankingStrategy): this {
+    this.strategies.set(strategy.name, strategy);
+    return this;
+  }
+
+  get(name: string): RankingStrategy | null {
+    return this.strategies.get(name) || null;
+  }
+
+  list(): Array<{ name: string; description: string }> {
+    return [...this.strategies.values()].map(({ name, description }) => ({ name, description }));
+  }
+}
+
+/**
+ * 创建包含内置策略的注册表
+ */
+export function createDefaultRankingRegistry(): RankingRegistry {
+  return new RankingRegistry()
+    .register(createWeightedStrategy('balanced', '综合新鲜度、互动、关注关系和推送优先级，降低已看过内容的排名', {
+      recency: 3,
+      likes: 1,
+      comments: 1,
+      followsAuthor: 1.5,
+      priority: 2,
+      seen: -2
+    }))
+    .register(createWeightedStrategy('popular', '优先展示点赞和评论多的内容', {
+      recency: 1,
+      likes: 3,
+      comments: 2,
+      followsAuthor: 0.5,
+      priority: 1,
+      seen: -1
+    }))
+    .register(createWeightedStrategy('fresh', '优先展示最新且没有看过的内容', {
+      recency: 5,
+      priority: 1,
+      seen: -3
+    }));
+}
+
+/**
+ * 对候选活动打分并按得分从高到低排序（得分相同时保持原有顺序）
+ * @returns 带有 ranking 得分明细的活动
+ */
+export function rankActivities<T extends RankableActivity>(
+  activities: T[],
+  strategy: RankingStrategy,
+  context: RankingContext
+): Array<T & { ranking: ScoreBreakdown }> {
+  return activities
+    .map((activity, index) => {
+      const signals = computeSignals(activity, context);
+      const { score, contributions } = strategy.score(signals);
+      return { activity, index, ranking: { strategy: strategy.name, score, signals, contributions } };
+    })
+    .sort((a, b) => b.ranking.score - a.ranking.score || a.index - b.index)
+    .map(({ activity, ranking }) => ({ ...activity, ranking }));
+}
+
+/**
+ * 记录用户已经看过的活动（只保存在内存中，每个用户保留最近 maxPerUser 条）
+ */
+export class SeenActivityTracker {
+  private seen = new Map<string, Set<string>>();
+  private maxPerUser: number;
+
+  constructor(maxPerUser: number = 1000) {
+    this.maxPerUser = maxPerUser;
+  }
+
+  markSeen(userId: string, activityIds: string[]): void {
+    let set = this.seen.get(userId);
+    if (!set) {
+      set = new Set();
+      this.seen.set(userId, set);
+    }
+    for (const activityId of activityIds) {
+      // 重新插入，让最近看过的排在最后
+      set.delete(activityId);
+      set.add(activityId);
+    }
+    while (set.size > this.maxPerUser) {
+      set.delete(set.values().next().value!);
+    }
+  }
+
+  getSeen(userId: string): Set<string> {
+    return new Set(this.seen.get(userId) || []);
+  }
+}
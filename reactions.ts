@@ -0,0 +1,75 @@
+/**
+ * 互动类型（reaction）
+ *
+ * 活动和评论的互动类型由配置决定，like 始终可用（原有的点赞接口是 like 类型的别名）。
+ * 每个用户对同一对象的每种类型最多一个互动，不同类型可以同时存在。
+ */
+
+export const DEFAULT_REACTION_TYPES = ['like', 'love', 'laugh', 'wow', 'sad'];
+
+const REACTION_TYPE_PATTERN = /^[a-z0-9_]{1,32}$/;
+
+/**
+ * 对象的互动汇总
+ */
+export interface ReactionSummary {
+  /** 每种互动类型的数量（包含所有已配置的类型） */
+  counts: Record<string, number>;
+  total: number;
+  /** 当前用户的互动类型 */
+  ownReactions: string[];
+}
+
+/**
+ * 互动类型注册表
+ */
+export class ReactionTypeRegistry {
+  private types: Set<string>;
+
+  /**
+   * @throws 类型名称不合法时抛出错误
+   */
+  constructor(types: string[] = DEFAULT_REACTION_TYPES) {
+    const invalid = types.filter(type => !REACTION_TYPE_PATTERN.test(type));
+    if (invalid.length > 0) {
+      throw new Error(`互动类型只能包含小写字母、数字和下划线: ${invalid.join(', ')}`);
+    }
+    this.types = new Set(['like', ...types]);
+  }
+
+  has(type: string): boolean {
+    return this.types.has(type);
+  }
+
+  list(): string[] {
+    return [...this.types];
+  }
+}
+
+/**
+ * 解析逗号分隔的互动类型列表，为空时返回默认类型
+ */
+export function parseReactionTypes(value: string | undefined): string[] {
+  const types = (value || '').split(',').map(type => type.trim().toLowerCase()).filter(Boolean);
+  return types.length > 0 ? types : DEFAULT_REACTION_TYPES;
+}
+
+/**
+ * 根据 Stream 返回的 reaction_groups 和当前用户的互动生成汇总（忽略未配置的类型）
+ */
+export function summarizeReactions(
+  reactionGroups: Record<string, { count: number }> | undefined,
+  ownReactions: Array<{ type: string }>,
+  registry: ReactionTypeRegistry
+): ReactionSummary {
+  const counts: Record<string, number> = {};
+  for (const type of registry.list()) {
+    counts[type] = reactionGroups?.[type]?.count || 0;
+  }
+
+  return {
+    counts,
+    total: Object.values(counts).reduce((sum, count) => sum + count, 0),
+    ownReactions: [...new Set(ownReactions.map(reaction => reaction.type).filter(type => registry.has(type)))]
+  };
+}
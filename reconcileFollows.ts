@@ -0,0 +1,87 @@
+import dotenv from 'dotenv';
+import { StreamClient } from '@stream-io/node-sdk';
+import { createStreamBackend, getStreamMode } from './streamBackend';
+import { reconcileUserFollows } from './followRelationships';
+
+/**
+ * 关注关系对账
+ *
+ * 检查所有用户的 user feed 和 foryou feed 关注是否一致，并修复不一致的关注
+ * （例如旧版本取消关注时只删除了 user feed 的关注，或关注时中途失败）。
+ *
+ * 用法: npm run reconcile-follows [-- --dry-run]
+ *   --dry-run  只列出不一致的关注，不修复
+ */
+
+// 加载环境变量
+dotenv.config();
+
+const USER_PAGE_SIZE = 100;
+
+/**
+ * 按用户ID顺序查询 cursor 之后的一页用户
+ */
+async function queryUserIds(streamClient: StreamClient, cursor: string | null): Promise<string[]> {
+  const response = await streamClient.queryUsers({
+    payload: {
+      filter_conditions: cursor ? { id: { $gt: cursor } } : {},
+      sort: [{ field: 'id', direction: 1 }],
+      limit: USER_PAGE_SIZE
+    }
+  });
+  return (response.users || []).map(user => user.id);
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  // 本地模式下可以不配置 API Key / Secret
+  const streamMode = getStreamMode();
+  const apiKey = process.env.STREAM_API_KEY || (streamMode === 'local' ? 'local' : '');
+  const apiSecret = process.env.STREAM_API_SECRET || (streamMode === 'local' ? 'local-secret' : '');
+  if (!apiKey || !apiSecret) {
+    throw new Error('请确保在 .env 文件中配置了 STREAM_API_KEY 和 STREAM_API_SECRET（或设置 STREAM_MODE=local 使用本地后端）');
+  }
+
+  const { streamClient } = createStreamBackend({ apiKey, apiSecret, timeout: 30000, mode: streamMode });
+
+  console.log(`🔍 开始检查关注关系${dryRun ? '（只检查，不修复）' : ''}`);
+
+  let users = 0;
+  let mismatches = 0;
+  let failed = 0;
+  let cursor: string | null = null;
+  while (true) {
+    const userIds = await queryUserIds(streamClient, cursor);
+    if (userIds.length === 0) {
+      break;
+    }
+
+    for (const userId of userIds) {
+      const result = await reconcileUserFollows(streamClient.feeds, userId, { dryRun });
+      users++;
+      mismatches += result.mismatches.length;
+      failed += result.failed.length;
+
+      for (const mismatch of result.mismatches) {
+        const action = mismatch.action === 'follow' ? '补上关注' : '删除多余关注';
+        console.log(`  ${userId}: ${action} ${mismatch.source} -> ${mismatch.target}`);
+      }
+      for (const failure of result.failed) {
+        console.error(`  ❌ ${userId}: 修复 ${failure.source} -> ${failure.target} 失败: ${failure.error}`);
+      }
+    }
+
+    cursor = userIds[userIds.length - 1];
+  }
+
+  console.log(`✅ 检查了 ${users} 个用户，发现 ${mismatches} 处不一致${dryRun ? '' : `，修复失败 ${failed} 处`}`);
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('❌ 关注关系对账失败:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
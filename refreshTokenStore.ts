@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+
+export interface RefreshTokenRecord {
+  token: string;
+  userId: string;
+  expiresAt: Date;
+}
+
+interface StoredRefreshToken {
+  userId: string;
+  expiresAt: string;
+}
+
+/**
+ * 刷新令牌只保存哈希，数据文件泄露时不能直接用来换取访问令牌
+ */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('base64url');
+}
+
+/**
+ * 刷新令牌存储
+ *
+ * 刷新令牌是不透明的随机字符串，服务端只保存其哈希，配置了文件时持久化，服务重启后仍然有效。
+ * 每次使用后立即作废并签发新的刷新令牌（轮换），也可以随时主动吊销。
+ */
+export class RefreshTokenStore {
+  private validityInSeconds: number;
+  private filePath?: string;
+  private records: Record<string, StoredRefreshToken>;
+
+  /**
+   * @param validityInSeconds 刷新令牌有效期（秒）
+   * @param filePath 数据文件，不传时只保存在内存中
+   */
+  constructor(validityInSeconds: number = 2 * 60 * 60, filePath?: string) {
+    this.validityInSeconds = validityInSeconds;
+    this.filePath = filePath;
+    this.records = filePath ? readJsonFile<Record<string, StoredRefreshToken>>(filePath, {}) : {};
+  }
+
+  /**
+   * 为用户签发新的刷新令牌
+   * @param userId 用户ID
+   * @returns 刷新令牌记录
+   */
+  issue(userId: string): RefreshTokenRecord {
+    this.purgeExpired();
+
+    const record: RefreshTokenRecord = {
+      token: crypto.randomBytes(32).toString('base64url'),
+      userId,
+      expiresAt: new Date(Date.now() + this.validityInSeconds * 1000)
+    };
+    this.records[hashToken(record.token)] = { userId, expiresAt: record.expiresAt.toISOString() };
+    this.save();
+    return record;
+  }
+
+  /**
+   * 使用刷新令牌（使用后立即作废）
+   * @param token 刷新令牌
+   * @returns 有效时返回令牌记录，否则返回 null
+   */
+  consume(token: string): RefreshTokenRecord | null {
+    const key = hashToken(token);
+    const stored = this.records[key];
+    if (!stored) {
+      return null;
+    }
+
+    delete this.records[key];
+    this.save();
+    const expiresAt = new Date(stored.expiresAt);
+    if (expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+    return { token, userId: stored.userId, expiresAt };
+  }
+
+  /**
+   * 吊销刷新令牌
+   * @param token 刷新令牌
+   * @returns 是否吊销了一个存在的令牌
+   */
+  revoke(token: string): boolean {
+    const key = hashToken(token);
+    if (!this.records[key]) {
+      return false;
+    }
+    delete this.records[key];
+    this.save();
+    return true;
+  }
+
+  /**
+   * 吊销用户的所有刷新令牌（修改密码或删除用户时）
+   * @param userId 用户ID
+   * @returns 吊销的数量
+   */
+  revokeAllForUser(userId: string): number {
+    let count = 0;
+    for (const [key, stored] of Object.entries(this.records)) {
+      if (stored.userId === userId) {
+        delete this.records[key];
+        count++;
+      }
+    }
+    if (count > 0) {
+      this.save();
+    }
+    return count;
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [key, stored] of Object.entries(this.records)) {
+      if (new Date(stored.expiresAt).getTime() <= now) {
+        delete this.records[key];
+      }
+    }
+  }
+
+  private save(): void {
+    if (this.filePath) {
+      writeJsonFile(this.filePath, this.records);
+    }
+  }
+}
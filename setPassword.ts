@@ -0,0 +1,31 @@
+import dotenv from 'dotenv';
+import { CredentialStore } from './credentialStore';
+
+/**
+ * 设置用户密码（服务端命令，用于初始化和重置密码）
+ *
+ * 用法: npm run set-password -- <userId> <password>
+ * 密码以 scrypt 哈希保存在 CREDENTIALS_DATA_FILE（默认 ./data/credentials.json），运行中的服务会直接读取新密码。
+ */
+
+// 加载环境变量
+dotenv.config();
+
+function main() {
+  const [userId, password] = process.argv.slice(2);
+  if (!userId || !password) {
+    console.error('用法: npm run set-password -- <userId> <password>');
+    process.exit(1);
+  }
+
+  const store = new CredentialStore(process.env.CREDENTIALS_DATA_FILE || './data/credentials.json');
+  store.setPassword(userId, password);
+  console.log(`✅ 已设置用户 ${userId} 的密码`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('❌ 设置密码失败:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,171 @@
+import fs from 'fs';
+
+export interface SigningKey {
+  kid: string;
+  secret: string;
+  /** 停止接受该密钥签名的时间，仅对旧密钥有意义 */
+  retiresAt?: Date;
+}
+
+/**
+ * 密钥环配置文件 / 环境变量的 JSON 格式
+ */
+export interface SigningKeyringConfig {
+  activeKid: string;
+  keys: Array<{
+    kid: string;
+    secret: string;
+    retiresAt?: string;
+  }>;
+}
+
+export interface SigningKeySummary {
+  kid: string;
+  active: boolean;
+  retiresAt: Date | null;
+  retired: boolean;
+}
+
+/**
+ * 签名密钥环
+ *
+ * 一个当前用于签名的密钥，加上若干在退役时间之前仍可用于验证的旧密钥。
+ * 轮换 Stream 密钥时，把旧密钥连同退役时间留在密钥环中，已签发的令牌就不会立即失效。
+ */
+export class SigningKeyring {
+  private active: SigningKey;
+  private keys = new Map<string, SigningKey>();
+
+  constructor(activeKey: SigningKey, previousKeys: SigningKey[] = []) {
+    this.active = activeKey;
+    for (const key of previousKeys) {
+      this.keys.set(key.kid, key);
+    }
+    this.keys.set(activeKey.kid, activeKey);
+  }
+
+  /**
+   * 使用单个密钥创建密钥环
+   */
+  static fromSecret(secret: string, kid: string = 'primary'): SigningKeyring {
+    return new SigningKeyring({ kid, secret });
+  }
+
+  /**
+   * 从 JSON 配置创建密钥环
+   */
+  static fromConfig(config: SigningKeyringConfig): SigningKeyring {
+    const keys: SigningKey[] = (config.keys || []).map(key => {
+      if (!key.kid || !key.secret) {
+        throw new Error('密钥环中的每个密钥都必须包含 kid 和 secret');
+      }
+      const retiresAt = key.retiresAt ? new Date(key.retiresAt) : undefined;
+      if (retiresAt && isNaN(retiresAt.getTime())) {
+        throw new Error(`密钥 ${key.kid} 的 retiresAt 不是有效的日期: ${key.retiresAt}`);
+      }
+      return { kid: key.kid, secret: key.secret, retiresAt };
+    });
+
+    const active = keys.find(key => key.kid === config.activeKid);
+    if (!active) {
+      throw new Error(`密钥环中找不到当前签名密钥: ${config.activeKid}`);
+    }
+
+    return new SigningKeyring(
+      { kid: active.kid, secret: active.secret },
+      keys.filter(key => key.kid !== active.kid)
+    );
+  }
+
+  /**
+   * 当前用于签名的密钥
+   */
+  get activeKey(): SigningKey {
+    return this.active;
+  }
+
+  /**
+   * 按 kid 获取仍可用于验证的密钥
+   * @param kid 密钥ID
+   * @returns 密钥，不存在或已退役时返回 null
+   */
+  getVerificationKey(kid: string): SigningKey | null {
+    const key = this.keys.get(kid);
+    if (!key || this.isRetired(key)) {
+      return null;
+    }
+    return key;
+  }
+
+  /**
+   * 所有仍可用于验证的密钥（当前密钥排在最前）
+   */
+  getVerificationKeys(): SigningKey[] {
+    return [this.active, ...[...this.keys.values()].filter(key =>
+      key.kid !== this.active.kid && !this.isRetired(key)
+    )];
+  }
+
+  /**
+   * 按 kid 查找密钥（包括已退役的密钥）
+   */
+  findKey(kid: string): SigningKey | null {
+    return this.keys.get(kid) || null;
+  }
+
+  /**
+   * 密钥列表（不包含密钥内容）
+   */
+  describe(): SigningKeySummary[] {
+    return [...this.keys.values()].map(key => this.summarize(key));
+  }
+
+  /**
+   * 单个密钥的摘要（不包含密钥内容）
+   */
+  summarize(key: SigningKey): SigningKeySummary {
+    return {
+      kid: key.kid,
+      active: key.kid === this.active.kid,
+      retiresAt: key.retiresAt || null,
+      retired: this.isRetired(key)
+    };
+  }
+
+  private isRetired(key: SigningKey): boolean {
+    if (key.kid === this.active.kid || !key.retiresAt) {
+      return false;
+    }
+    return key.retiresAt.getTime() <= Date.now();
+  }
+}
+
+/**
+ * 加载签名密钥环
+ *
+ * 优先级：STREAM_SIGNING_KEYRING（JSON 字符串）> STREAM_SIGNING_KEYRING_FILE（JSON 文件路径）> 仅使用 apiSecret
+ * @param apiSecret 未配置密钥环时使用的 Stream API Secret
+ */
+export function loadSigningKeyring(apiSecret: string): SigningKeyring {
+  const inlineConfig = process.env.STREAM_SIGNING_KEYRING;
+  const configFile = process.env.STREAM_SIGNING_KEYRING_FILE;
+
+  let config: SigningKeyringConfig | null = null;
+  if (inlineConfig) {
+    config = JSON.parse(inlineConfig);
+    console.log('🔐 已从环境变量 STREAM_SIGNING_KEYRING 加载签名密钥环');
+  } else if (configFile) {
+    config = JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+    console.log(`🔐 已从文件 ${configFile} 加载签名密钥环`);
+  }
+
+  if (!config) {
+    return SigningKeyring.fromSecret(apiSecret);
+  }
+
+  const keyring = SigningKeyring.fromConfig(config);
+  if (keyring.activeKey.secret !== apiSecret) {
+    console.warn('⚠️ 密钥环的当前签名密钥与 STREAM_API_SECRET 不一致，Stream 将无法验证新签发的令牌');
+  }
+  return keyring;
+}
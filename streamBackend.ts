@@ -0,0 +1,84 @@
+import { FeedsClient } from '@stream-io/feeds-client';
+import { StreamClient } from '@stream-io/node-sdk';
+import { LocalFeedsClient, LocalStreamClient, LocalStreamStore } from './localStream';
+
+export type StreamMode = 'stream' | 'local';
+
+export interface StreamBackendConfig {
+  apiKey: string;
+  apiSecret: string;
+  /** 请求超时（毫秒） */
+  timeout?: number;
+  /** 运行模式，默认读取 STREAM_MODE 环境变量 */
+  mode?: StreamMode;
+  /** 本地模式的数据文件，默认读取 STREAM_LOCAL_DATA_FILE 环境变量，不配置则只保存在内存中 */
+  localDataFile?: string;
+  /** 本地模式的初始用户，格式为 id[:role] 的逗号分隔列表，默认读取 STREAM_LOCAL_USERS 环境变量 */
+  localUsers?: string;
+}
+
+export interface StreamBackend {
+  mode: StreamMode;
+  /** 服务端客户端 */
+  streamClient: StreamClient;
+  /** 创建新的用户端客户端（每个用户会话一个） */
+  createFeedsClient: () => FeedsClient;
+}
+
+// 默认不创建管理员，需要时通过 STREAM_LOCAL_USERS 显式配置（如 admin:admin）
+const DEFAULT_LOCAL_USERS = 'alice,bob,charlie';
+
+/**
+ * 解析 id[:role] 格式的用户列表
+ */
+function parseLocalUsers(value: string): Array<{ id: string; role?: string }> {
+  return value.split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [id, role] = entry.split(':');
+      return { id, role };
+    });
+}
+
+/**
+ * 读取 STREAM_MODE 环境变量
+ */
+export function getStreamMode(): StreamMode {
+  const mode = (process.env.STREAM_MODE || 'stream').toLowerCase();
+  if (mode !== 'stream' && mode !== 'local') {
+    throw new Error(`不支持的 STREAM_MODE: ${mode}，可选值为 stream 或 local`);
+  }
+  return mode;
+}
+
+/**
+ * 创建 Stream 后端
+ *
+ * stream 模式连接真实的 Stream 服务；local 模式使用进程内的本地实现，
+ * 无需网络和 Stream 账号，适合离线开发和演示。
+ */
+export function createStreamBackend(config: StreamBackendConfig): StreamBackend {
+  const mode = config.mode ?? getStreamMode();
+  const timeout = config.timeout ?? 30000;
+
+  if (mode === 'local') {
+    const dataFile = config.localDataFile ?? process.env.STREAM_LOCAL_DATA_FILE;
+    const store = new LocalStreamStore(dataFile || undefined);
+    store.seedUsers(parseLocalUsers(config.localUsers ?? process.env.STREAM_LOCAL_USERS ?? DEFAULT_LOCAL_USERS));
+    console.log(`🧪 使用本地 Stream 后端${dataFile ? ` (数据文件: ${dataFile})` : ' (仅内存)'}`);
+
+    // 本地实现只覆盖本项目用到的接口子集，按真实客户端的类型暴露给调用方
+    return {
+      mode,
+      streamClient: new LocalStreamClient(store) as unknown as StreamClient,
+      createFeedsClient: () => new LocalFeedsClient(store) as unknown as FeedsClient
+    };
+  }
+
+  return {
+    mode,
+    streamClient: new StreamClient(config.apiKey, config.apiSecret, { timeout }),
+    createFeedsClient: () => new FeedsClient(config.apiKey, { timeout })
+  };
+}
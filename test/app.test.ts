@@ -0,0 +1,159 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, TestApp } from './helpers';
+
+describe('认证', () => {
+  let t: TestApp;
+  before(async () => {
+    t = await startTestApp();
+  });
+  after(async () => {
+    await t.close();
+  });
+
+  it('用户ID和密码正确时签发访问令牌和刷新令牌', async () => {
+    const tokens = await t.login('alice');
+    assert.ok(tokens.token);
+    assert.ok(tokens.refreshToken);
+  });
+
+  it('密码错误时返回 401', async () => {
+    const response = await t.request(null, 'POST', '/api/auth/token', { userId: 'alice', password: 'wrong-password' });
+    assert.equal(response.status, 401);
+  });
+
+  it('没有令牌时拒绝访问', async () => {
+    const response = await t.request(null, 'GET', '/api/feeds/user/alice');
+    assert.equal(response.status, 401);
+  });
+
+  it('不能访问其他用户的数据', async () => {
+    const response = await t.request('bob', 'GET', '/api/feeds/user/alice');
+    assert.equal(response.status, 403);
+  });
+
+  it('刷新令牌只能使用一次', async () => {
+    const { refreshToken } = await t.login('alice');
+    const first = await t.request(null, 'POST', '/api/auth/refresh', { refreshToken });
+    assert.equal(first.status, 200);
+    assert.ok(first.body.data.token);
+
+    const second = await t.request(null, 'POST', '/api/auth/refresh', { refreshToken });
+    assert.equal(second.status, 401);
+  });
+
+  it('修改密码后之前签发的访问令牌失效', async () => {
+    const { token } = await t.login('charlie');
+    // 令牌签发时间精确到秒，修改密码的同一秒内签发的令牌仍然有效
+    await new Promise(resolve => setTimeout(resolve, 1100));
+
+    const response = await fetch(`${t.baseUrl}/api/user/charlie/password`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ currentPassword: 'charlie-password', newPassword: 'charlie-new-password' })
+    });
+    assert.equal(response.status, 200);
+    const { data } = await response.json();
+
+    const withOldToken = await fetch(`${t.baseUrl}/api/feeds/user/charlie`, { headers: { Authorization: `Bearer ${token}` } });
+    assert.equal(withOldToken.status, 401);
+
+    const withNewToken = await fetch(`${t.baseUrl}/api/feeds/user/charlie`, { headers: { Authorization: `Bearer ${data.tokens.token}` } });
+    assert.equal(withNewToken.status, 200);
+  });
+
+  it('删除用户后之前签发的访问令牌失效', async () => {
+    const { token } = await t.login('bob');
+    const deleted = await fetch(`${t.baseUrl}/api/users/bob`, { method: 'DELETE', headers: { Authorization: `Bearer ${token}` } });
+    assert.equal(deleted.status, 200);
+
+    const response = await fetch(`${t.baseUrl}/api/feeds/user/bob`, { headers: { Authorization: `Bearer ${token}` } });
+    assert.equal(response.status, 401);
+  });
+});
+
+describe('帖子和 feed', () => {
+  let t: TestApp;
+  before(async () => {
+    t = await startTestApp();
+  });
+  after(async () => {
+    await t.close();
+  });
+
+  it('发布到 user feed 后可以读取', async () => {
+    const post = await t.request('alice', 'POST', '/api/feeds/user/alice/post', { text: 'hello #intro' });
+    assert.equal(post.status, 200);
+
+    const feed = await t.request('alice', 'GET', '/api/feeds/user/alice');
+    assert.equal(feed.status, 200);
+    assert.deepEqual(feed.body.data.activities.map((activity: any) => activity.text), ['hello #intro']);
+    assert.deepEqual(feed.body.data.activities[0].interest_tags, ['intro']);
+  });
+
+  it('只保存存在的用户的提及', async () => {
+    const post = await t.request('alice', 'POST', '/api/feeds/user/alice/post', { text: 'hi @bob @everyone' });
+    assert.equal(post.status, 200);
+
+    const activity = post.body.data.activity.activity;
+    assert.deepEqual(activity.mentioned_users.map((user: any) => user.id), ['bob']);
+  });
+
+  it('评论活动后可以读取评论', async () => {
+    const post = await t.request('alice', 'POST', '/api/feeds/user/alice/post', { text: 'comment me' });
+    const activityId = post.body.data.activity.activity.id;
+
+    const comment = await t.request('bob', 'POST', `/api/activity/${activityId}/comments`, { userId: 'bob', comment: 'nice' });
+    assert.equal(comment.status, 200);
+
+    const comments = await t.request('bob', 'GET', `/api/activity/${activityId}/comments`);
+    assert.equal(comments.status, 200);
+    assert.deepEqual(comments.body.data.comments.map((item: any) => item.text), ['nice']);
+  });
+});
+
+describe('关注', () => {
+  let t: TestApp;
+  before(async () => {
+    t = await startTestApp();
+  });
+  after(async () => {
+    await t.close();
+  });
+
+  it('关注后出现在粉丝列表中，取消关注后移除', async () => {
+    assert.equal((await t.request('alice', 'POST', '/api/user/alice/follow/bob')).status, 200);
+    assert.equal((await t.request('charlie', 'POST', '/api/user/charlie/follow/bob')).status, 200);
+
+    let followers = await t.request('bob', 'GET', '/api/user/bob/followers');
+    assert.equal(followers.status, 200);
+    assert.deepEqual(followers.body.data.followers.map((f: any) => f.userId).sort(), ['alice', 'charlie']);
+    assert.equal(followers.body.data.counts.followers, 2);
+
+    assert.equal((await t.request('charlie', 'DELETE', '/api/user/charlie/follow/bob')).status, 200);
+    followers = await t.request('bob', 'GET', '/api/user/bob/followers');
+    assert.deepEqual(followers.body.data.followers.map((f: any) => f.userId), ['alice']);
+    assert.equal(followers.body.data.counts.followers, 1);
+  });
+
+  it('粉丝列表分页时每页都是满的', async () => {
+    await t.request('charlie', 'POST', '/api/user/charlie/follow/bob');
+    const page1 = await t.request('bob', 'GET', '/api/user/bob/followers?limit=1');
+    assert.equal(page1.body.data.followers.length, 1);
+    assert.ok(page1.body.data.pagination.hasNext);
+
+    const page2 = await t.request('bob', 'GET', `/api/user/bob/followers?limit=1&next=${encodeURIComponent(page1.body.data.pagination.next)}`);
+    assert.equal(page2.body.data.followers.length, 1);
+    assert.notEqual(page2.body.data.followers[0].userId, page1.body.data.followers[0].userId);
+    assert.equal(page2.body.data.counts.approximate, false);
+
+    const back = await t.request('bob', 'GET', `/api/user/bob/followers?limit=1&prev=${encodeURIComponent(page2.body.data.pagination.prev)}`);
+    assert.deepEqual(back.body.data.followers, page1.body.data.followers);
+  });
+
+  it('被关注的用户收到通知', async () => {
+    const notifications = await t.request('bob', 'GET', '/api/user/bob/notifications');
+    assert.equal(notifications.status, 200);
+    assert.ok(notifications.body.data.notifications.length > 0);
+  });
+});
@@ -0,0 +1,58 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, TestApp } from './helpers';
+
+/**
+ * 轮询广播任务直到不再运行
+ */
+async function waitForBroadcast(t: TestApp, broadcastId: string): Promise<any> {
+  for (let i = 0; i < 50; i++) {
+    const response = await t.request('root', 'GET', `/api/broadcasts/${broadcastId}`);
+    const broadcast = response.body.data.broadcast;
+    if (broadcast.status !== 'pending' && broadcast.status !== 'running') {
+      return broadcast;
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error(`广播任务 ${broadcastId} 没有完成`);
+}
+
+describe('全局广播', () => {
+  let t: TestApp;
+  before(async () => {
+    t = await startTestApp();
+    t.app.start();
+  });
+  after(async () => {
+    await t.close();
+  });
+
+  it('只有管理员可以创建广播', async () => {
+    const response = await t.request('alice', 'POST', '/api/broadcasts', { text: 'hello' });
+    assert.equal(response.status, 403);
+  });
+
+  it('投递到所有用户的 foryou feed', async () => {
+    const response = await t.request('root', 'POST', '/api/broadcasts', { text: 'first broadcast' });
+    assert.equal(response.status, 202);
+
+    const broadcast = await waitForBroadcast(t, response.body.data.broadcast.id);
+    assert.equal(broadcast.status, 'completed');
+    assert.equal(broadcast.delivered, 4);
+  });
+
+  it('停止后再次启动时可以继续广播', async () => {
+    t.app.stop();
+    t.app.start();
+
+    const response = await t.request('root', 'POST', '/api/broadcasts', { text: 'after restart' });
+    assert.equal(response.status, 202);
+
+    const broadcast = await waitForBroadcast(t, response.body.data.broadcast.id);
+    assert.equal(broadcast.status, 'completed');
+    assert.equal(broadcast.delivered, 4);
+
+    const feed = await t.request('bob', 'GET', '/api/feeds/foryou/bob');
+    assert.ok(feed.body.data.activities.some((activity: any) => activity.text === 'after restart'));
+  });
+});
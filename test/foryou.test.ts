@@ -0,0 +1,60 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, TestApp } from './helpers';
+
+describe('foryou feed', () => {
+  let t: TestApp;
+  before(async () => {
+    t = await startTestApp();
+    // 从旧到新：marketing 推送和 update 推送交错发布
+    for (let i = 1; i <= 6; i++) {
+      const category = i % 2 === 0 ? 'update' : 'marketing';
+      const response = await t.request('alice', 'POST', '/api/feeds/foryou/alice/post', {
+        text: `${category} ${i}`,
+        category,
+        priority: i === 1 ? 'high' : 'medium'
+      });
+      assert.equal(response.status, 200);
+    }
+  });
+  after(async () => {
+    await t.close();
+  });
+
+  it('按分类筛选时每页都是满的，翻页不跳过推送', async () => {
+    const page1 = await t.request('alice', 'GET', '/api/feeds/foryou/alice?category=update&limit=2');
+    assert.equal(page1.status, 200);
+    assert.deepEqual(page1.body.data.activities.map((activity: any) => activity.text), ['update 6', 'update 4']);
+    assert.ok(page1.body.data.pagination.hasNext);
+
+    const page2 = await t.request('alice', 'GET', `/api/feeds/foryou/alice?category=update&limit=2&next=${encodeURIComponent(page1.body.data.pagination.next)}`);
+    assert.deepEqual(page2.body.data.activities.map((activity: any) => activity.text), ['update 2']);
+  });
+
+  it('高优先级推送只在当前页内置顶', async () => {
+    const page1 = await t.request('alice', 'GET', '/api/feeds/foryou/alice?limit=3');
+    assert.deepEqual(page1.body.data.activities.map((activity: any) => activity.text), ['update 6', 'marketing 5', 'update 4']);
+
+    const page2 = await t.request('alice', 'GET', `/api/feeds/foryou/alice?limit=3&next=${encodeURIComponent(page1.body.data.pagination.next)}`);
+    assert.deepEqual(page2.body.data.activities.map((activity: any) => activity.text), ['marketing 1', 'marketing 3', 'update 2']);
+  });
+
+  it('屏蔽的分类不占用名额', async () => {
+    const update = await t.request('alice', 'PUT', '/api/user/alice/preferences', { mutedCategories: ['marketing'] });
+    assert.equal(update.status, 200);
+
+    const page = await t.request('alice', 'GET', '/api/feeds/foryou/alice?limit=3');
+    assert.deepEqual(page.body.data.activities.map((activity: any) => activity.text), ['update 6', 'update 4', 'update 2']);
+  });
+
+  it('修改用户资料时保留偏好和其他 custom 字段', async () => {
+    assert.equal((await t.request('alice', 'PUT', '/api/users/alice', { custom: { bio: 'hello' } })).status, 200);
+    assert.equal((await t.request('alice', 'PUT', '/api/users/alice', { custom: { city: 'Shanghai', preferences: {} } })).status, 200);
+
+    // 直接读取保存的数据（偏好接口有缓存）
+    const { users } = await t.backend.streamClient.queryUsers({ payload: { filter_conditions: { id: { $eq: 'alice' } } } });
+    assert.deepEqual(users[0].custom.preferences.mutedCategories, ['marketing']);
+    assert.equal(users[0].custom.bio, 'hello');
+    assert.equal(users[0].custom.city, 'Shanghai');
+  });
+});
@@ -0,0 +1,111 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { AppConfig, createApp, StreamFeedsApp } from '../app';
+import { createStreamBackend, StreamBackend } from '../streamBackend';
+import { StreamTokenProvider } from '../tokenProvider';
+import { CredentialStore } from '../credentialStore';
+
+// node --test 通过子进程的 stdout 传回测试结果，应用日志混在其中时偶尔会破坏结果，设置 TEST_LOGS=1 时才输出
+if (!process.env.TEST_LOGS) {
+  console.log = () => undefined;
+}
+
+export interface TestResponse {
+  status: number;
+  body: any;
+}
+
+export interface TestApp {
+  app: StreamFeedsApp;
+  backend: StreamBackend;
+  credentialStore: CredentialStore;
+  /** 应用监听的地址，如 http://127.0.0.1:12345 */
+  baseUrl: string;
+  /** 以指定用户身份（自动登录）调用接口，userId 为 null 时不带令牌 */
+  request(userId: string | null, method: string, path: string, body?: unknown): Promise<TestResponse>;
+  /** 登录并返回令牌（签发结果的 data） */
+  login(userId: string, password?: string): Promise<any>;
+  close(): Promise<void>;
+}
+
+/**
+ * 测试用户的密码（用户ID + "-password"）
+ */
+export function passwordFor(userId: string): string {
+  return `${userId}-password`;
+}
+
+/**
+ * 使用本地 Stream 后端（仅内存）启动应用，所有用户都设置好密码
+ * @param options.users id[:role] 格式的用户列表
+ */
+export async function startTestApp(options: { users?: string; config?: Partial<AppConfig> } = {}): Promise<TestApp> {
+  const users = options.users ?? 'alice,bob,charlie,root:admin';
+  const backend = createStreamBackend({
+    apiKey: 'local',
+    apiSecret: 'local-secret',
+    mode: 'local',
+    localDataFile: '',
+    localUsers: users
+  });
+
+  const credentialStore = new CredentialStore();
+  for (const entry of users.split(',')) {
+    const userId = entry.split(':')[0].trim();
+    credentialStore.setPassword(userId, passwordFor(userId));
+  }
+
+  const app = createApp({
+    feedsClient: backend.createFeedsClient,
+    streamClient: backend.streamClient,
+    tokenProvider: new StreamTokenProvider('local', 'local-secret'),
+    credentialStore,
+    config: { publicDir: null, ...options.config }
+  });
+
+  const server: Server = await new Promise(resolve => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const tokens = new Map<string, string>();
+
+  async function send(method: string, path: string, token: string | null, body?: unknown): Promise<TestResponse> {
+    const response = await fetch(baseUrl + path, {
+      method,
+      headers: {
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  }
+
+  async function login(userId: string, password: string = passwordFor(userId)) {
+    const response = await send('POST', '/api/auth/token', null, { userId, password });
+    if (response.status !== 200) {
+      throw new Error(`登录失败 (${response.status}): ${JSON.stringify(response.body)}`);
+    }
+    tokens.set(userId, response.body.data.token);
+    return response.body.data;
+  }
+
+  return {
+    app,
+    backend,
+    credentialStore,
+    baseUrl,
+    login,
+    async request(userId, method, path, body) {
+      if (userId && !tokens.has(userId)) {
+        await login(userId);
+      }
+      return send(method, path, userId ? tokens.get(userId)! : null, body);
+    },
+    async close() {
+      await new Promise(resolve => server.close(resolve));
+      await app.shutdown();
+    }
+  };
+}
@@ -0,0 +1,47 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, TestApp } from './helpers';
+import { UserSessionPool } from '../userSessionPool';
+
+const HEARTBEAT_SECONDS = 0.02;
+
+describe('实时事件（SSE）', () => {
+  let t: TestApp;
+  before(async () => {
+    t = await startTestApp({ config: { sseHeartbeatSeconds: HEARTBEAT_SECONDS } });
+  });
+  after(async () => {
+    mock.restoreAll();
+    await t.close();
+  });
+
+  it('心跳不会重复借用用户会话', async () => {
+    const { token } = await t.login('alice');
+    const lease = mock.method(UserSessionPool.prototype, 'lease');
+
+    const controller = new AbortController();
+    const response = await fetch(`${t.baseUrl}/api/feeds/user/alice/stream`, {
+      headers: { Authorization: `Bearer ${token}` },
+      signal: controller.signal
+    });
+    assert.equal(response.status, 200);
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = '';
+    while (!received.includes('event: ready')) {
+      const { value } = await reader.read();
+      received += decoder.decode(value);
+    }
+    const leasesAfterReady = lease.mock.callCount();
+
+    // 等待多次心跳
+    while ((received.match(/: heartbeat/g) || []).length < 5) {
+      const { value } = await reader.read();
+      received += decoder.decode(value);
+    }
+    controller.abort();
+
+    assert.equal(lease.mock.callCount(), leasesAfterReady);
+  });
+});
@@ -0,0 +1,55 @@
+import { StreamClient } from '@stream-io/node-sdk';
+
+/**
+ * 从帖子文本中解析出的话题和提及
+ */
+export interface TextEntities {
+  /** 话题（#tag，统一为小写，不含 #），保存为活动的 interest_tags */
+  hashtags: string[];
+  /** 提及的用户ID（@userId），保存为活动的 mentioned_user_ids */
+  mentions: string[];
+}
+
+// # 和 @ 前面不能是字母或数字，避免把 a#b、邮箱地址等识别为话题和提及
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_#&])#([\p{L}\p{N}_]{1,64})/gu;
+const MENTION_PATTERN = /(^|[^\p{L}\p{N}_@.])@([A-Za-z0-9_-]{1,64})/gu;
+
+/**
+ * 规范化话题名称（去掉开头的 #，转为小写）
+ * @returns 不是合法话题时返回 null
+ */
+export function normalizeHashtag(tag: string): string | null {
+  const normalized = tag.replace(/^#/, '').toLowerCase();
+  return /^[\p{L}\p{N}_]{1,64}$/u.test(normalized) ? normalized : null;
+}
+
+/**
+ * 解析文本中的话题和提及（去重，保持出现顺序）
+ */
+export function parseTextEntities(text: string): TextEntities {
+  const hashtags = [...text.matchAll(HASHTAG_PATTERN)].map(match => match[2].toLowerCase());
+  const mentions = [...text.matchAll(MENTION_PATTERN)].map(match => match[2]);
+  return {
+    hashtags: [...new Set(hashtags)],
+    mentions: [...new Set(mentions)]
+  };
+}
+
+/**
+ * 查找不存在的用户
+ * @returns 不存在的用户ID
+ */
+export async function findUnknownUsers(streamClient: StreamClient, userIds: string[]): Promise<string[]> {
+  if (userIds.length === 0) {
+    return [];
+  }
+
+  const response = await streamClient.queryUsers({
+    payload: {
+      filter_conditions: { id: { $in: userIds } },
+      limit: userIds.length
+    }
+  });
+  const existing = new Set((response.users || []).map(user => user.id));
+  return userIds.filter(id => !existing.has(id));
+}
@@ -1,5 +1,10 @@
-import { StreamClient } from '@stream-io/node-sdk';
 import jwt from 'jsonwebtoken';
+import { SigningKeyring, SigningKeySummary } from './signingKeyring';
+
+/**
+ * 令牌过期前多少分钟算作"即将过期"，服务端和客户端的刷新时机都以此为准
+ */
+export const TOKEN_EXPIRY_WARNING_MINUTES = 5;
 
 export interface TokenGenerationOptions {
   userId: string;
@@ -12,13 +17,57 @@ export interface TokenInfo {
   userId: string;
 }
 
+export interface TokenKeyInfo {
+  /** 令牌头中的 kid，旧令牌可能没有 */
+  kid: string | null;
+  /** 实际验证通过的密钥 */
+  key: SigningKeySummary | null;
+  valid: boolean;
+  userId: string | null;
+  expiresAt: Date | null;
+  error?: string;
+}
+
 export class StreamTokenProvider {
-  private streamClient: StreamClient;
-  private apiSecret: string;
+  private keyring: SigningKeyring;
 
-  constructor(apiKey: string, apiSecret: string) {
-    this.streamClient = new StreamClient(apiKey, apiSecret);
-    this.apiSecret = apiSecret;
+  constructor(apiKey: string, apiSecret: string, keyring?: SigningKeyring) {
+    this.keyring = keyring || SigningKeyring.fromSecret(apiSecret);
+  }
+
+  /**
+   * 使用密钥环验证令牌：有 kid 时只用对应密钥，否则依次尝试所有仍有效的密钥
+   * @param token JWT令牌
+   * @returns 解码后的载荷和验证所用的密钥
+   */
+  private verifyWithKeyring(token: string): { payload: any; kid: string } {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded) {
+      throw new Error('无法解析令牌');
+    }
+
+    const kid = decoded.header.kid;
+    if (kid) {
+      const key = this.keyring.getVerificationKey(kid);
+      if (!key) {
+        throw new Error(`签名密钥 ${kid} 不存在或已退役`);
+      }
+      return { payload: jwt.verify(token, key.secret, { algorithms: ['HS256'] }), kid: key.kid };
+    }
+
+    let lastError: unknown = new Error('没有可用的验证密钥');
+    for (const key of this.keyring.getVerificationKeys()) {
+      try {
+        return { payload: jwt.verify(token, key.secret, { algorithms: ['HS256'] }), kid: key.kid };
+      } catch (error) {
+        lastError = error;
+        // 过期等与密钥无关的错误无需再尝试其他密钥
+        if (!(error instanceof jwt.JsonWebTokenError) || error.message !== 'invalid signature') {
+          break;
+        }
+      }
+    }
+    throw lastError;
   }
 
   /**
@@ -31,9 +80,15 @@ export class StreamTokenProvider {
     
     console.log(`🔑 正在为用户 ${userId} 生成令牌，有效期: ${validityInSeconds}秒`);
     
-    // 使用 Stream Node SDK 生成令牌
-    const expirationTime = Math.floor(Date.now() / 1000) + validityInSeconds;
-    const token = this.streamClient.generateUserToken({user_id: userId, exp: expirationTime});
+    // 使用密钥环中的当前密钥签名，并在令牌头中写入 kid
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const expirationTime = issuedAt + validityInSeconds;
+    const activeKey = this.keyring.activeKey;
+    const token = jwt.sign(
+      { user_id: userId, iat: issuedAt, exp: expirationTime },
+      activeKey.secret,
+      { algorithm: 'HS256', keyid: activeKey.kid }
+    );
     
     const expiresAt = new Date(Date.now() + validityInSeconds * 1000);
     
@@ -53,7 +108,7 @@ export class StreamTokenProvider {
    */
   validateToken(token: string): boolean {
     try {
-      const decoded = jwt.verify(token, this.apiSecret) as any;
+      const decoded = this.verifyWithKeyring(token).payload;
       
       // 检查令牌是否过期
       if (decoded.exp && decoded.exp < Date.now() / 1000) {
@@ -74,12 +129,13 @@ export class StreamTokenProvider {
    * @param token JWT令牌
    * @returns 用户信息
    */
-  getUserFromToken(token: string): { userId: string; exp?: number } | null {
+  getUserFromToken(token: string): { userId: string; exp?: number; iat?: number } | null {
     try {
-      const decoded = jwt.verify(token, this.apiSecret) as any;
+      const decoded = this.verifyWithKeyring(token).payload;
       return {
         userId: decoded.user_id,
-        exp: decoded.exp
+        exp: decoded.exp,
+        iat: decoded.iat
       };
     } catch (error) {
       console.log('❌ 无法从令牌中提取用户信息:', error);
@@ -87,15 +143,59 @@ export class StreamTokenProvider {
     }
   }
 
+  /**
+   * 查询令牌由哪个密钥签名
+   * @param token JWT令牌
+   * @returns 签名密钥和令牌有效性信息
+   */
+  inspectToken(token: string): TokenKeyInfo {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      return { kid: null, key: null, valid: false, userId: null, expiresAt: null, error: '无法解析令牌' };
+    }
+
+    const kid = decoded.header.kid || null;
+    const userId = decoded.payload.user_id || null;
+    const expiresAt = decoded.payload.exp ? new Date(decoded.payload.exp * 1000) : null;
+
+    try {
+      const verified = this.verifyWithKeyring(token);
+      return {
+        kid,
+        key: this.keyring.summarize(this.keyring.findKey(verified.kid)!),
+        valid: true,
+        userId,
+        expiresAt
+      };
+    } catch (error) {
+      const knownKey = kid ? this.keyring.findKey(kid) : null;
+      return {
+        kid,
+        key: knownKey ? this.keyring.summarize(knownKey) : null,
+        valid: false,
+        userId,
+        expiresAt,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * 密钥环中的密钥列表（不包含密钥内容）
+   */
+  describeKeys(): SigningKeySummary[] {
+    return this.keyring.describe();
+  }
+
   /**
    * 检查令牌是否即将过期（在指定分钟内）
    * @param token JWT令牌
    * @param minutesBeforeExpiry 过期前多少分钟算作即将过期
    * @returns 是否即将过期
    */
-  isTokenExpiringSoon(token: string, minutesBeforeExpiry: number = 5): boolean {
+  isTokenExpiringSoon(token: string, minutesBeforeExpiry: number = TOKEN_EXPIRY_WARNING_MINUTES): boolean {
     try {
-      const decoded = jwt.verify(token, this.apiSecret) as any;
+      const decoded = this.verifyWithKeyring(token).payload;
       
       if (!decoded.exp) {
         return false;
@@ -111,26 +211,59 @@ export class StreamTokenProvider {
   }
 }
 
+export interface TokenManagerOptions {
+  /** 默认令牌有效期（秒） */
+  validityInSeconds?: number;
+  /** 过期前多少分钟主动刷新（最多提前到有效期的一半） */
+  refreshBeforeMinutes?: number;
+  /** 令牌多久未被使用后不再续期并移除（毫秒），仍在使用中的用户（见 setActivityCheck）除外 */
+  staleAfterMs?: number;
+}
+
+interface ManagedToken {
+  info: TokenInfo;
+  validityInSeconds: number;
+  lastAccessedAt: number;
+  refreshTimer?: NodeJS.Timeout;
+}
+
 /**
- * 令牌管理器类，用于自动处理令牌刷新
+ * 令牌管理器类，按用户管理令牌，并在过期前主动刷新
  */
 export class TokenManager {
   private tokenProvider: StreamTokenProvider;
-  private currentToken: TokenInfo | null = null;
-  private refreshCallback?: (newToken: string) => void;
+  private tokens = new Map<string, ManagedToken>();
+  private refreshCallback?: (userId: string, newToken: string) => void | Promise<void>;
+  private activityCheck?: (userId: string) => boolean;
+  private validityInSeconds: number;
+  private refreshBeforeMinutes: number;
+  private staleAfterMs: number;
 
-  constructor(tokenProvider: StreamTokenProvider) {
+  constructor(tokenProvider: StreamTokenProvider, options: TokenManagerOptions = {}) {
     this.tokenProvider = tokenProvider;
+    this.validityInSeconds = options.validityInSeconds ?? 3600;
+    this.refreshBeforeMinutes = options.refreshBeforeMinutes ?? TOKEN_EXPIRY_WARNING_MINUTES;
+    this.staleAfterMs = options.staleAfterMs ?? 30 * 60 * 1000;
   }
 
   /**
    * 设置令牌刷新回调
-   * @param callback 当令牌刷新时调用的回调函数
+   * @param callback 当某个用户的令牌被刷新时调用的回调函数
    */
-  setRefreshCallback(callback: (newToken: string) => void) {
+  setRefreshCallback(callback: (userId: string, newToken: string) => void | Promise<void>) {
     this.refreshCallback = callback;
   }
 
+  /**
+   * 设置用户是否仍在使用的检查（如是否还有已连接的会话）
+   * 令牌只在 getValidToken 时记录使用时间，已连接的会话不会再次获取令牌，
+   * 主动刷新时仍在使用的用户总是续期，不会因为长时间未获取令牌而被移除
+   * @param check 返回 true 表示用户仍在使用令牌
+   */
+  setActivityCheck(check: (userId: string) => boolean) {
+    this.activityCheck = check;
+  }
+
   /**
    * 获取有效的令牌，如果需要会自动刷新
    * @param userId 用户ID
@@ -138,31 +271,108 @@ export class TokenManager {
    * @returns 有效的令牌
    */
   async getValidToken(userId: string, validityInSeconds?: number): Promise<string> {
-    // 如果没有当前令牌或令牌即将过期，生成新令牌
-    if (!this.currentToken || 
-        this.currentToken.userId !== userId ||
-        this.tokenProvider.isTokenExpiringSoon(this.currentToken.token)) {
-      
-      console.log('🔄 正在刷新令牌...');
-      this.currentToken = this.tokenProvider.generateUserToken({ 
-        userId, 
-        validityInSeconds 
-      });
-      
-      // 调用刷新回调
-      if (this.refreshCallback) {
-        this.refreshCallback(this.currentToken.token);
-      }
+    const entry = this.tokens.get(userId);
+    
+    if (entry && !this.tokenProvider.isTokenExpiringSoon(entry.info.token, this.refreshBeforeMinutesFor(entry.validityInSeconds))) {
+      entry.lastAccessedAt = Date.now();
+      return entry.info.token;
     }
     
-    return this.currentToken.token;
+    // 没有令牌或令牌即将过期，生成新令牌
+    const info = await this.refresh(userId, validityInSeconds ?? entry?.validityInSeconds);
+    return info.token;
   }
 
   /**
-   * 清除当前令牌
+   * 清除令牌
+   * @param userId 用户ID，不传则清除所有用户的令牌
    */
-  clearToken() {
-    this.currentToken = null;
+  clearToken(userId?: string) {
+    if (userId) {
+      this.remove(userId);
+      console.log(`🗑️ 用户 ${userId} 的令牌已清除`);
+      return;
+    }
+    
+    for (const id of [...this.tokens.keys()]) {
+      this.remove(id);
+    }
     console.log('🗑️ 令牌已清除');
   }
-}
\ No newline at end of file
+
+  /**
+   * 当前管理的令牌数量
+   */
+  get size(): number {
+    return this.tokens.size;
+  }
+
+  private async refresh(userId: string, validityInSeconds: number = this.validityInSeconds): Promise<TokenInfo> {
+    const previous = this.tokens.get(userId);
+    
+    console.log(`🔄 正在刷新用户 ${userId} 的令牌...`);
+    const info = this.tokenProvider.generateUserToken({ userId, validityInSeconds });
+    
+    if (previous?.refreshTimer) {
+      clearTimeout(previous.refreshTimer);
+    }
+    const entry: ManagedToken = {
+      info,
+      validityInSeconds,
+      lastAccessedAt: previous?.lastAccessedAt ?? Date.now()
+    };
+    this.tokens.set(userId, entry);
+    this.scheduleRefresh(userId, entry);
+    
+    // 只有替换已有令牌时才通知，首次签发无需重新连接
+    if (previous && this.refreshCallback) {
+      try {
+        await this.refreshCallback(userId, info.token);
+      } catch (error) {
+        console.error(`❌ 用户 ${userId} 的令牌刷新回调失败:`, error);
+      }
+    }
+    
+    return info;
+  }
+
+  /**
+   * 提前刷新的分钟数：有效期很短（不超过刷新窗口）时改为在有效期过半时刷新，
+   * 否则新令牌一签发就“即将过期”，会不停地刷新
+   */
+  private refreshBeforeMinutesFor(validityInSeconds: number): number {
+    return Math.min(this.refreshBeforeMinutes, validityInSeconds / 60 / 2);
+  }
+
+  private scheduleRefresh(userId: string, entry: ManagedToken): void {
+    const refreshAt = entry.info.expiresAt.getTime() - this.refreshBeforeMinutesFor(entry.validityInSeconds) * 60 * 1000;
+    const delay = Math.max(0, refreshAt - Date.now());
+    
+    entry.refreshTimer = setTimeout(() => {
+      if (this.tokens.get(userId) !== entry) {
+        return;
+      }
+      
+      // 长时间未使用且已不在使用中的令牌不再续期，直接移除
+      if (Date.now() - entry.lastAccessedAt >= this.staleAfterMs && !this.activityCheck?.(userId)) {
+        this.remove(userId);
+        console.log(`🧹 用户 ${userId} 的令牌长时间未使用，已移除`);
+        return;
+      }
+      
+      this.refresh(userId, entry.validityInSeconds).catch(error => {
+        console.error(`❌ 用户 ${userId} 的令牌主动刷新失败:`, error);
+      });
+    }, delay);
+    // 刷新定时器不应阻止进程退出
+    entry.refreshTimer.unref();
+  }
+
+  private remove(userId: string): void {
+    const entry = this.tokens.get(userId);
+    if (entry?.refreshTimer) {
+      clearTimeout(entry.refreshTimer);
+    }
+    this.tokens.delete(userId);
+  }
+}
@@ -0,0 +1,322 @@
+import { FeedsClient } from '@stream-io/feeds-client';
+
+export interface UserSessionPoolOptions {
+  /** 同时保持连接的最大会话数（包括正在建立的连接），超出时淘汰最久未使用且没有被借用的会话 */
+  maxSessions?: number;
+  /** 会话空闲多久后自动断开（毫秒） */
+  idleTimeoutMs?: number;
+}
+
+export interface UserSessionInfo {
+  userId: string;
+  connectedAt: Date;
+  lastUsedAt: Date;
+}
+
+/**
+ * 借用的会话，使用完毕后调用 release 归还；借用中的会话不会被淘汰或因空闲断开
+ */
+export interface UserSessionLease {
+  client: FeedsClient;
+  release: () => void;
+}
+
+interface UserSession {
+  userId: string;
+  client: FeedsClient;
+  connectedAt: number;
+  lastUsedAt: number;
+  /** 尚未归还的借用数量 */
+  leases: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * 按用户划分的 FeedsClient 连接池
+ *
+ * 每个用户拥有独立的 FeedsClient 会话，不同用户的请求可以并行处理，
+ * 不会再因为共享同一个客户端而互相串号。
+ */
+export class UserSessionPool {
+  private createClient: () => FeedsClient;
+  private getToken: (userId: string) => Promise<string>;
+  private maxSessions: number;
+  private idleTimeoutMs: number;
+
+  // Map 保持插入顺序，最近使用的会话总是位于末尾，用于 LRU 淘汰
+  private sessions = new Map<string, UserSession>();
+  // 正在建立中的连接，避免同一用户的并发请求重复连接
+  private pendingConnections = new Map<string, Promise<UserSession>>();
+  // 等待正在建立的连接的借用数量，连接建立时计入会话
+  private pendingLeases = new Map<string, number>();
+
+  /**
+   * @param createClient 创建新 FeedsClient 的工厂（真实 Stream 或本地实现）
+   * @param getToken 获取用户令牌
+   * @param options 连接池选项
+   */
+  constructor(
+    createClient: () => FeedsClient,
+    getToken: (userId: string) => Promise<string>,
+    options: UserSessionPoolOptions = {}
+  ) {
+    this.createClient = createClient;
+    this.getToken = getToken;
+    this.maxSessions = options.maxSessions ?? 50;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 10 * 60 * 1000;
+  }
+
+  /**
+   * 获取指定用户的已连接客户端，不存在时自动创建
+   * @param userId 用户ID
+   * @returns 已连接该用户的 FeedsClient
+   */
+  async acquire(userId: string): Promise<FeedsClient> {
+    const session = await this.acquireSession(userId, false);
+    return session.client;
+  }
+
+  /**
+   * 借用指定用户的已连接客户端，归还前该会话不会被淘汰
+   * @param userId 用户ID
+   */
+  async lease(userId: string): Promise<UserSessionLease> {
+    const session = await this.acquireSession(userId, true);
+    let released = false;
+    return {
+      client: session.client,
+      release: () => {
+        if (!released) {
+          released = true;
+          this.endLease(session);
+        }
+      }
+    };
+  }
+
+  /**
+   * 断开并移除指定用户的会话
+   * @param userId 用户ID
+   * @returns 是否存在并断开了该会话
+   */
+  async release(userId: string): Promise<boolean> {
+    const session = this.sessions.get(userId);
+    if (!session) {
+      return false;
+    }
+
+    this.sessions.delete(userId);
+    await this.disconnect(session);
+    return true;
+  }
+
+  /**
+   * 使用新令牌重新连接指定用户的会话（令牌刷新后调用）
+   * @param userId 用户ID
+   * @param token 新令牌
+   * @returns 是否存在并重连了该会话
+   */
+  async reconnect(userId: string, token: string): Promise<boolean> {
+    const session = this.sessions.get(userId);
+    if (!session) {
+      return false;
+    }
+
+    try {
+      await session.client.disconnectUser();
+    } catch (error) {
+      console.warn('断开用户连接时出现警告:', error);
+    }
+
+    try {
+      await session.client.connectUser({ id: userId }, token);
+      console.log(`🔁 已使用新令牌重新连接用户 ${userId}`);
+      return true;
+    } catch (error) {
+      // 重连失败时移除会话，下次请求会重新建立连接
+      if (this.sessions.get(userId) === session) {
+        this.sessions.delete(userId);
+        if (session.idleTimer) {
+          clearTimeout(session.idleTimer);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 断开所有会话
+   */
+  async releaseAll(): Promise<void> {
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.all(sessions.map(session => this.disconnect(session)));
+  }
+
+  /**
+   * 是否存在指定用户的会话
+   */
+  has(userId: string): boolean {
+    return this.sessions.has(userId);
+  }
+
+  /**
+   * 当前会话数量
+   */
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * 当前会话列表（按最近使用排序，最新的在最后）
+   */
+  list(): UserSessionInfo[] {
+    return [...this.sessions.values()].map(session => ({
+      userId: session.userId,
+      connectedAt: new Date(session.connectedAt),
+      lastUsedAt: new Date(session.lastUsedAt)
+    }));
+  }
+
+  /**
+   * 获取会话，lease 为 true 时在返回前（同步地）计入借用，避免在等待期间被淘汰
+   */
+  private async acquireSession(userId: string, lease: boolean): Promise<UserSession> {
+    const existing = this.sessions.get(userId);
+    if (existing) {
+      if (lease) {
+        existing.leases++;
+      }
+      this.touch(existing);
+      return existing;
+    }
+
+    if (lease) {
+      this.pendingLeases.set(userId, (this.pendingLeases.get(userId) || 0) + 1);
+    }
+
+    let pending = this.pendingConnections.get(userId);
+    if (!pending) {
+      // 先登记到 pendingConnections 再开始连接，腾出位置时会计入本次连接
+      pending = Promise.resolve().then(() => this.connect(userId)).finally(() => {
+        this.pendingConnections.delete(userId);
+        this.pendingLeases.delete(userId);
+      });
+      this.pendingConnections.set(userId, pending);
+    }
+
+    return pending;
+  }
+
+  private async connect(userId: string): Promise<UserSession> {
+    // 为新会话腾出位置（正在建立的连接也占用名额，包括本次连接）
+    await this.evictIdleSessions(userId);
+
+    const token = await this.getToken(userId);
+    const client = this.createClient();
+    await client.connectUser({ id: userId }, token);
+
+    const now = Date.now();
+    const session: UserSession = {
+      userId,
+      client,
+      connectedAt: now,
+      lastUsedAt: now,
+      leases: this.pendingLeases.get(userId) || 0
+    };
+    this.pendingLeases.delete(userId);
+    this.sessions.set(userId, session);
+    this.scheduleIdleTimeout(session);
+
+    console.log(`✅ 已连接用户 ${userId} (当前会话数: ${this.sessions.size})`);
+    return session;
+  }
+
+  /**
+   * 连接数超过上限时，按最久未使用的顺序淘汰没有被借用的会话
+   * 没有可淘汰的会话时先等待更早开始的连接建立完成（它们之后可能可以淘汰）；
+   * 所有会话都在使用中时暂时超出上限，归还后再淘汰
+   * @param connectingUserId 正在为其腾出位置的用户（只等待在它之前开始的连接）
+   */
+  private async evictIdleSessions(connectingUserId?: string): Promise<void> {
+    while (this.sessions.size + this.pendingConnections.size > this.maxSessions) {
+      const idle = [...this.sessions.values()].find(session => session.leases === 0);
+      if (idle) {
+        console.log(`♻️ 连接池已满 (${this.maxSessions})，淘汰最久未使用的用户 ${idle.userId}`);
+        await this.release(idle.userId);
+        continue;
+      }
+
+      const earlier: Promise<unknown>[] = [];
+      for (const [userId, pending] of this.pendingConnections) {
+        if (userId === connectingUserId) {
+          break;
+        }
+        earlier.push(pending.catch(() => undefined));
+      }
+      if (!connectingUserId || earlier.length === 0) {
+        console.warn(`⚠️ 连接池已满 (${this.maxSessions})，所有会话都在使用中，暂时超出上限`);
+        return;
+      }
+      await Promise.race(earlier);
+    }
+  }
+
+  private endLease(session: UserSession): void {
+    session.leases--;
+    if (this.sessions.get(session.userId) !== session) {
+      return;
+    }
+    this.touch(session);
+    if (this.sessions.size + this.pendingConnections.size > this.maxSessions) {
+      this.evictIdleSessions().catch(error => {
+        console.warn('淘汰会话时出现警告:', error);
+      });
+    }
+  }
+
+  private touch(session: UserSession): void {
+    session.lastUsedAt = Date.now();
+    // 重新插入以移动到 LRU 队尾
+    this.sessions.delete(session.userId);
+    this.sessions.set(session.userId, session);
+    this.scheduleIdleTimeout(session);
+  }
+
+  private scheduleIdleTimeout(session: UserSession): void {
+    if (session.idleTimer) {
+      clearTimeout(session.idleTimer);
+    }
+
+    session.idleTimer = setTimeout(() => {
+      if (this.sessions.get(session.userId) !== session) {
+        return;
+      }
+      // 借用中的会话（如 SSE 连接）不算空闲，归还时会重新计时
+      if (session.leases > 0) {
+        this.scheduleIdleTimeout(session);
+        return;
+      }
+      console.log(`⏱️ 用户 ${session.userId} 会话空闲超时，自动断开`);
+      this.release(session.userId).catch(error => {
+        console.warn('断开空闲会话时出现警告:', error);
+      });
+    }, this.idleTimeoutMs);
+    // 空闲定时器不应阻止进程退出
+    session.idleTimer.unref();
+  }
+
+  private async disconnect(session: UserSession): Promise<void> {
+    if (session.idleTimer) {
+      clearTimeout(session.idleTimer);
+      session.idleTimer = undefined;
+    }
+
+    try {
+      await session.client.disconnectUser();
+      console.log(`🔌 已断开用户 ${session.userId} 的连接`);
+    } catch (error) {
+      console.warn('断开用户连接时出现警告:', error);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { ActivityResponse, CommentResponse } from '@stream-io/feeds-client';
+import { ReactionSummary, ReactionTypeRegistry, summarizeReactions } from './reactions';
+
+/**
+ * 当前用户对活动和评论的状态（点赞、收藏、互动、是否关注作者）
+ *
+ * Web 界面用一次请求取回整页内容的状态，代替逐条查询点赞状态和点赞数。
+ * 活动和评论需要通过用户端客户端查询，返回的 own_reactions、own_bookmarks 才是当前用户的。
+ */
+
+// 每次最多查询的活动或评论数量
+export const MAX_VIEWER_STATE_IDS = 100;
+
+export interface ActivityViewerState {
+  authorId: string | null;
+  liked: boolean;
+  bookmarked: boolean;
+  followsAuthor: boolean;
+  likeCount: number;
+  commentCount: number;
+  reactions: ReactionSummary;
+}
+
+export interface CommentViewerState {
+  authorId: string | null;
+  liked: boolean;
+  followsAuthor: boolean;
+  likeCount: number;
+  replyCount: number;
+  reactions: ReactionSummary;
+}
+
+export interface ViewerState {
+  /** 按活动ID索引，查询不到的活动不包含在内 */
+  activities: Record<string, ActivityViewerState>;
+  /** 按评论ID索引 */
+  comments: Record<string, CommentViewerState>;
+}
+
+/**
+ * 根据带有当前用户数据的活动和评论生成状态
+ * @param followedUserIds 当前用户关注的用户
+ */
+export function buildViewerState(
+  activities: ActivityResponse[],
+  comments: CommentResponse[],
+  followedUserIds: Set<string>,
+  registry: ReactionTypeRegistry
+): ViewerState {
+  const state: ViewerState = { activities: {}, comments: {} };
+
+  for (const activity of activities) {
+    const reactions = summarizeReactions(activity.reaction_groups, activity.own_reactions || [], registry);
+    const authorId = activity.user?.id || null;
+    state.activities[activity.id] = {
+      authorId,
+      liked: reactions.ownReactions.includes('like'),
+      bookmarked: (activity.own_bookmarks || []).length > 0,
+      followsAuthor: !!authorId && followedUserIds.has(authorId),
+      likeCount: reactions.counts.like,
+      commentCount: activity.comment_count || 0,
+      reactions
+    };
+  }
+
+  for (const comment of comments) {
+    const reactions = summarizeReactions(comment.reaction_groups, comment.own_reactions || [], registry);
+    const authorId = comment.user?.id || null;
+    state.comments[comment.id] = {
+      authorId,
+      liked: reactions.ownReactions.includes('like'),
+      followsAuthor: !!authorId && followedUserIds.has(authorId),
+      likeCount: reactions.counts.like,
+      replyCount: comment.reply_count || 0,
+      reactions
+    };
+  }
+
+  return state;
+}